@@ -0,0 +1,117 @@
+import { describe, expect, test } from "bun:test";
+import { CompletionContext, type CompletionSource } from "@codemirror/autocomplete";
+import { ensureSyntaxTree } from "@codemirror/language";
+import { EditorState } from "@codemirror/state";
+import { humlAutocomplete, humlCompletion } from "./src/autocomplete";
+import { humlLanguage } from "./src/huml";
+
+// Complete at the `|` in `doc`, as "label -> inserted text"
+function complete(doc: string) {
+    const pos = doc.indexOf("|");
+    const state = EditorState.create({ doc: doc.replace("|", ""), extensions: [humlLanguage] });
+    const result = humlAutocomplete(new CompletionContext(state, pos, true));
+    return result?.options.map((option) => `${option.label} -> ${typeof option.apply === "string" ? option.apply : option.label}`) ?? [];
+}
+
+describe("Key completion", () => {
+    const servers = "servers::\n  - ::\n    host: \"a\"\n    port:: [80, 443]\n    tls: true\n  - ::\n    host: \"b\"\n";
+
+    test("suggests keys of sibling list items that are not present yet", () => {
+        expect(complete(`${servers}    |\n`)).toEqual(["port -> port:: ", "tls -> tls: "]);
+        expect(complete(`${servers}  - ::\n    |\n`)).toEqual(["host -> host: ", "port -> port:: ", "tls -> tls: "]);
+    });
+
+    test("completes a partially typed key", () => {
+        const state = EditorState.create({ doc: `${servers}    po`, extensions: [humlLanguage] });
+        const result = humlAutocomplete(new CompletionContext(state, state.doc.length, true));
+        expect(result?.from).toBe(state.doc.length - 2);
+        expect(result?.options.map((option) => option.label)).toContain("port");
+    });
+
+    test("suggests keys used at the same path elsewhere, after sibling keys", () => {
+        const doc = "groups::\n  - ::\n    items::\n      - ::\n        id: 1\n  - ::\n    items::\n      - ::\n        name: \"x\"\n      - ::\n        |\n";
+        const state = EditorState.create({ doc: doc.replace("|", ""), extensions: [humlLanguage] });
+        const result = humlAutocomplete(new CompletionContext(state, doc.indexOf("|"), true))!;
+        const boosts = Object.fromEntries(result.options.map((option) => [option.label, option.boost]));
+        expect(boosts).toEqual({ id: 0, name: 1 });
+        expect(result.options.find((option) => option.label === "id")?.detail).toBe("in groups[0].items[0]");
+    });
+
+    test("keys at other paths are not suggested", () => {
+        expect(complete("a::\n  x: 1\nb::\n  y: 2\n  |\n")).toEqual([]);
+    });
+
+    test("quotes keys that cannot be written bare", () => {
+        expect(complete("- ::\n  \"app/name\": \"web\"\n- ::\n  |\n")).toEqual(["\"app/name\" -> \"app/name\": "]);
+    });
+});
+
+describe("Value completion", () => {
+    const logs = "logs::\n  - ::\n    level: \"info\"\n    retries: 3\n  - ::\n    level: \"debug\"\n  - ::\n    level: \"info\"\n    verbose: false\n  - ::\n";
+
+    test("suggests values of the same key path, most frequent first", () => {
+        const doc = `${logs}    level:|\n`;
+        const state = EditorState.create({ doc: doc.replace("|", ""), extensions: [humlLanguage] });
+        const result = humlAutocomplete(new CompletionContext(state, doc.indexOf("|"), true))!;
+        expect(result.options.map((option) => [option.label, option.apply, option.boost, option.detail])).toEqual([
+            ["\"info\"", " \"info\"", 2, "used 2 times"],
+            ["\"debug\"", " \"debug\"", 1, "used once"],
+        ]);
+    });
+
+    test("values are typed by their kind", () => {
+        const state = EditorState.create({ doc: `${logs}    retries: 1\n    verbose: `, extensions: [humlLanguage] });
+        const result = humlAutocomplete(new CompletionContext(state, state.doc.length, true))!;
+        expect(result.options.map((option) => `${option.label} ${option.type}`)).toEqual(["false keyword"]);
+        expect(complete(`${logs}    retries: |\n`)).toEqual(["3 -> 3"]);
+    });
+
+    test("falls back to generic scalars for unseen keys", () => {
+        expect(complete("a: 1\nb:|\n")).toEqual(["\" -> \"", "true -> true", "false -> false", "null -> null"]);
+    });
+});
+
+describe("Completion on a large document", () => {
+    // 3000 list items of three keys, fully parsed
+    function large(tail: string) {
+        let doc = "items::\n";
+        for (let i = 0; i < 3000; i++) doc += `  - ::\n    name: "n${i}"\n    level: "${["debug", "info", "warn"][i % 3]}"\n    port: ${i}\n`;
+        doc += `  - ::\n${tail}\n`;
+        const created = EditorState.create({ doc, extensions: [humlLanguage] });
+        ensureSyntaxTree(created, doc.length, 1e9);
+        // Pick up the finished tree in the state
+        const state = created.update({}).state;
+        return humlAutocomplete(new CompletionContext(state, doc.length - 1, true))!;
+    }
+
+    test("counts values across every item", () => {
+        const result = large("    level: ");
+        expect(result.options.map((option) => `${option.label} ${option.detail}`)).toEqual([
+            "\"debug\" used 1000 times",
+            "\"info\" used 1000 times",
+            "\"warn\" used 1000 times",
+        ]);
+    });
+
+    test("finds keys of the other items", () => {
+        expect(large("    ").options.map((option) => option.label)).toEqual(["name", "level", "port"]);
+    });
+});
+
+describe("Completion sources", () => {
+    // Labels from every registered completion source at the `|` in `doc`
+    async function labels(doc: string, extension = humlCompletion()) {
+        const pos = doc.indexOf("|");
+        const state = EditorState.create({ doc: doc.replace("|", ""), extensions: [humlLanguage, extension] });
+        const context = new CompletionContext(state, pos, true);
+        const sources = state.languageDataAt<CompletionSource>("autocomplete", pos);
+        const results = await Promise.all(sources.map((source) => source(context)));
+        return results.flatMap((result) => result?.options.map((option) => option.label) ?? []);
+    }
+
+    test("snippets are offered next to key and schema completions", async () => {
+        expect(await labels("a::\n  - ::\n    b: 1\n  - ::\n    c: 2\n    |\n")).toEqual(["b", "dict", "list of dicts"]);
+        const schema = { properties: { name: { type: "string" as const }, port: { type: "integer" as const } } };
+        expect(await labels("name: \"x\"\n|\n", humlCompletion({ schema }))).toEqual(["port", "dict", "list of dicts"]);
+    });
+});
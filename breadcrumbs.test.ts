@@ -0,0 +1,43 @@
+import { describe, expect, test } from "bun:test";
+import { EditorState } from "@codemirror/state";
+import { pathAt } from "./src/breadcrumbs";
+import { humlLanguage } from "./src/language";
+
+const doc = [
+    "server::",
+    "  host: \"example.com\"",
+    "  listeners::",
+    "    - :: port: 80",
+    "    - ::",
+    "      port: 443",
+    "      hosts:: \"a\", \"b\"",
+    "",
+    "name: \"x\"",
+    "",
+].join("\n");
+
+const state = EditorState.create({ doc, extensions: [humlLanguage] });
+
+function pathOf(search: string, offset = 0) {
+    return pathAt(state, doc.indexOf(search) + offset);
+}
+
+describe("pathAt", () => {
+    test("follows keys and list items down to the cursor", () => {
+        expect(pathOf("example")).toEqual(["server", "host"]);
+        expect(pathOf("80")).toEqual(["server", "listeners", 0, "port"]);
+        expect(pathOf("443", 3)).toEqual(["server", "listeners", 1, "port"]);
+        expect(pathOf("\"b\"", 1)).toEqual(["server", "listeners", 1, "hosts", 1]);
+    });
+
+    test("keys resolve to their own entry", () => {
+        expect(pathOf("host:", 2)).toEqual(["server", "host"]);
+        expect(pathOf("name")).toEqual([]);
+        expect(pathOf("name", 2)).toEqual(["name"]);
+    });
+
+    test("is empty at the top level", () => {
+        expect(pathAt(state, 0)).toEqual([]);
+        expect(pathAt(state, doc.length)).toEqual([]);
+    });
+});
@@ -0,0 +1,53 @@
+import { describe, expect, test } from "bun:test";
+import { HumlConversionError, fromJSON, fromTOML, fromYAML, toJSON, toTOML, toYAML } from "./src/convert";
+import { parse } from "./src/decoder";
+
+describe("JSON conversion", () => {
+    test("round-trips through HUML", () => {
+        const json = { name: "api", "needs quotes": true, notes: "line one\nline two", ports: [80, 443], nested: { empty: [] } };
+        const huml = fromJSON(JSON.stringify(json));
+        expect(huml).toContain("\"needs quotes\": true");
+        expect(huml).toContain("notes: \"\"\"");
+        expect(JSON.parse(toJSON(huml))).toEqual(json);
+    });
+
+    test("rejects nan and inf with their path", () => {
+        expect(() => toJSON("limits::\n  max: inf\n")).toThrow("Infinity has no JSON representation (at limits.max)");
+        expect(() => fromJSON("{oops")).toThrow(HumlConversionError);
+    });
+});
+
+describe("YAML conversion", () => {
+    test("maps scalars, multiline strings and special numbers", async () => {
+        const huml = await fromYAML("name: api\nratio: .nan\nmax: -.inf\ntext: |\n  a\n  b\nnull: 1\n");
+        expect(huml).toContain("ratio: nan\nmax: -inf\n");
+        const value = parse(huml) as Record<string, unknown>;
+        expect(value.text).toBe("a\nb\n");
+        expect(value.null).toBe(1);
+    });
+
+    test("exports HUML as YAML", async () => {
+        expect(await toYAML("server::\n  port: 80\n  hosts:: \"a\", \"b\"\nr: inf\n")).toBe(
+            "server:\n  port: 80\n  hosts:\n    - a\n    - b\nr: .inf\n"
+        );
+    });
+
+    test("rejects anchors, aliases and multiple documents", async () => {
+        await expect(fromYAML("base: &base 1\ncopy: *base\n")).rejects.toThrow("YAML anchors are not supported: &base (line 1)");
+        await expect(fromYAML("a: 1\n---\nb: 2\n")).rejects.toThrow(HumlConversionError);
+        await expect(fromYAML("a: [1\n")).rejects.toThrow(/^Invalid YAML/);
+    });
+});
+
+describe("TOML conversion", () => {
+    test("converts tables and special floats", async () => {
+        expect(await fromTOML("title = \"x\"\n[server]\nport = 80\nratio = nan\n")).toBe("title: \"x\"\nserver:: port: 80, ratio: nan\n");
+        expect(await toTOML("server::\n  port: 80\n  ratio: -inf\n")).toBe("[server]\nport = 80\nratio = -inf\n");
+    });
+
+    test("rejects datetimes, null and non-dictionary roots", async () => {
+        await expect(fromTOML("when = 1979-05-27T07:32:00Z\n")).rejects.toThrow("TOML dates and times are not supported: 1979-05-27T07:32:00.000Z (at when)");
+        await expect(toTOML("a:: 1, null\n")).rejects.toThrow("null has no TOML representation (at a[1])");
+        await expect(toTOML("- 1\n")).rejects.toThrow("TOML documents must be a dictionary at the root");
+    });
+});
@@ -0,0 +1,116 @@
+import { describe, expect, test } from "bun:test";
+import { HumlParseError, decode, parse } from "./src/decoder";
+import { parser } from "./src/huml-parser";
+
+describe("Decoder", () => {
+    test("decodes nested dicts and lists", () => {
+        const input = [
+            "%HUML v0.1.0",
+            "# Service config",
+            "name: \"api\"",
+            "server::",
+            "  port: 8080",
+            "  hosts:: \"a\", \"b\"",
+            "  listeners::",
+            "    - ::",
+            "      port: 80",
+            "    - :: port: 443, tls: true",
+            "empty_list:: []",
+            "empty_dict:: {}",
+            "",
+        ].join("\n");
+
+        expect(parse(input)).toEqual({
+            name: "api",
+            server: {
+                port: 8080,
+                hosts: ["a", "b"],
+                listeners: [{ port: 80 }, { port: 443, tls: true }],
+            },
+            empty_list: [],
+            empty_dict: {},
+        });
+    });
+
+    test("decodes root lists and exclusive root values", () => {
+        expect(parse("- 1\n- \"two\"\n- null\n")).toEqual([1, "two", null]);
+        expect(parse("1, 2, 3")).toEqual([1, 2, 3]);
+        expect(parse("a: 1, b: false")).toEqual({ a: 1, b: false });
+        expect(parse("\"only\"")).toBe("only");
+        expect(decode("[]")).toEqual([]);
+    });
+
+    test("resolves string escapes and quoted keys", () => {
+        expect(parse('"key with space": "tab\\there \\"q\\" \\u00e9\\\\"')).toEqual({
+            "key with space": "tab\there \"q\" é\\",
+        });
+    });
+
+    test("decodes number formats", () => {
+        const input = [
+            "hex: 0xFF",
+            "oct: 0o755",
+            "bin: -0b101",
+            "big: 1_000_000",
+            "float: 1.5e3",
+            "neg: -12.25",
+            "nan_value: nan",
+            "pos_inf: +inf",
+            "neg_inf: -inf",
+        ].join("\n");
+
+        const value = parse(input) as Record<string, number>;
+        expect(value.hex).toBe(255);
+        expect(value.oct).toBe(493);
+        expect(value.bin).toBe(-5);
+        expect(value.big).toBe(1000000);
+        expect(value.float).toBe(1500);
+        expect(value.neg).toBe(-12.25);
+        expect(value.nan_value).toBeNaN();
+        expect(value.pos_inf).toBe(Infinity);
+        expect(value.neg_inf).toBe(-Infinity);
+    });
+
+    test("strips block string indentation", () => {
+        const input = 'text: """\n  line one\n    indented\n"""\n';
+        expect(parse(input)).toEqual({ text: "line one\n  indented" });
+    });
+
+    test("throws HumlParseError with line and column on syntax errors", () => {
+        try {
+            parse("a: 1\nb:: \n");
+            throw new Error("expected parse to throw");
+        } catch (err) {
+            expect(err).toBeInstanceOf(HumlParseError);
+            expect((err as HumlParseError).line).toBe(3);
+            expect((err as HumlParseError).column).toBe(1);
+        }
+    });
+
+    test("throws on duplicate keys", () => {
+        expect(() => parse("a: 1\na: 2\n")).toThrow(/Duplicate key "a" \(line 2, column 1\)/);
+    });
+
+    describe("Line endings", () => {
+        const lf = "%HUML v0.1.0\na: 1 # note\nb::\n  c:: 1, 2\n  d: \"\"\"\n    one\n    two\n  \"\"\"\n\ne::\n  - ::\n    f: true\n";
+        const crlf = lf.replace(/\n/g, "\r\n");
+
+        test("CRLF and BOM documents parse like LF documents", () => {
+            const expected = parse(lf);
+            expect(parse(crlf)).toEqual(expected);
+            expect(parse("\uFEFF" + lf)).toEqual(expected);
+            expect(parse("\uFEFF" + crlf)).toEqual(expected);
+            expect(parser.parse(crlf).toString()).toBe(parser.parse(lf).toString());
+        });
+
+        test("multiline strings decode with LF unless configured", () => {
+            expect(parse(crlf)).toMatchObject({ b: { d: "one\ntwo" } });
+            expect(parse(crlf, { lineEnding: "preserve" })).toMatchObject({ b: { d: "one\r\ntwo" } });
+            expect(parse(lf, { lineEnding: "crlf" })).toMatchObject({ b: { d: "one\r\ntwo" } });
+        });
+
+        test("errors in CRLF documents point at the right line", () => {
+            expect(() => parse("a: 1\r\nb:1\r\n")).toThrow("Expected space after : (line 2, column 3)");
+        });
+    });
+});
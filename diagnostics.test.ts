@@ -0,0 +1,242 @@
+import { describe, expect, test } from "bun:test";
+import { EditorState, type TransactionSpec } from "@codemirror/state";
+import type { EditorView } from "@codemirror/view";
+import { fixAllHuml, humlDiagnostics, humlLinter, type HumlLintOptions } from "./src/diagnostics";
+import { humlLanguage } from "./src/huml";
+import { parser } from "./src/huml-parser";
+import { humlLintRules } from "./src/rules";
+import { validateTree } from "./src/validator";
+
+function lint(doc: string, options?: HumlLintOptions) {
+    return humlDiagnostics({ state: EditorState.create({ doc, extensions: [humlLanguage] }) }, options);
+}
+
+describe("Duplicate key validation", () => {
+    test("validateTree returns ranges, codes and the first occurrence", () => {
+        const input = "a: 1\nb: 2\na: 3\n";
+        const issues = validateTree(parser.parse(input), input);
+        expect(issues).toEqual([{
+            from: 10,
+            to: 11,
+            code: "huml/duplicate-key",
+            message: "Duplicate key \"a\"",
+            related: { from: 0, to: 1, message: "\"a\" is first defined here" },
+        }]);
+    });
+
+    test("quoted and bare keys with the same name are duplicates", () => {
+        const input = "a: 1\n\"a\": 2\n";
+        const issues = validateTree(parser.parse(input), input);
+        expect(issues).toHaveLength(1);
+        expect(input.slice(issues[0]!.from, issues[0]!.to)).toBe("\"a\"");
+    });
+
+    test("keys in different dictionaries are not duplicates", () => {
+        const input = "a::\n  x: 1\nb::\n  x: 2\n";
+        expect(validateTree(parser.parse(input), input)).toEqual([]);
+    });
+
+    test("the linter underlines the duplicated key", () => {
+        const diagnostics = lint("server::\n  port: 1\n  port: 2\n");
+        expect(diagnostics).toHaveLength(1);
+        const [diagnostic] = diagnostics;
+        expect(diagnostic!.from).toBe(21);
+        expect(diagnostic!.to).toBe(25);
+        expect(diagnostic!.source).toBe("huml/duplicate-key");
+        expect(diagnostic!.message).toBe("Duplicate key \"port\" (first defined on line 2)");
+        expect(diagnostic!.actions?.[0]?.name).toBe("Go to first definition");
+    });
+
+    test("severity overrides apply by diagnostic code", () => {
+        const [diagnostic] = lint("a: 1\na: 2\n", { severity: { "huml/duplicate-key": "warning" } });
+        expect(diagnostic!.severity).toBe("warning");
+    });
+});
+
+describe("Spacing diagnostics", () => {
+    function codes(doc: string) {
+        return lint(doc).map((d) => `${d.from} ${d.source}`);
+    }
+
+    test("a missing space after a colon gets one diagnostic with a stable code", () => {
+        expect(codes("a:1\n")).toEqual(["2 huml/space-after-colon"]);
+        expect(codes("x:-1\n")).toEqual(["2 huml/space-after-colon"]);
+        expect(codes("a::[1]\n")).toEqual(["3 huml/space-after-double-colon"]);
+        expect(codes("a:: b:1, c: 2\n")).toEqual(["6 huml/space-after-colon"]);
+        expect(lint("a:1\n")[0]!.message).toBe("Expected space after :");
+    });
+
+    test("colons in comments are not reported", () => {
+        expect(lint("# key:value\na: 1 # see:this, also::[this]\n")).toEqual([]);
+        expect(lint("a::\n  # b:1\n  b: 1\n")).toEqual([]);
+    });
+
+    test("colons in strings are not reported", () => {
+        expect(lint("a: \"x:y\"\nb:: \"k::[1]\", \"c:d\"\n")).toEqual([]);
+        expect(lint("\"key:1\": 2\n")).toEqual([]);
+    });
+
+    test("colons in multiline string content are not reported", () => {
+        expect(lint("a: \"\"\"\n  url:http\n  k::[1]\n\"\"\"\nb: 1\n")).toEqual([]);
+        expect(lint("a: ```\n  x:1\n  y::{z}\n```\n")).toEqual([]);
+    });
+
+    test("colons at the end of a line or before a comment need no space", () => {
+        expect(lint("a::\n  b: 1\nc:: # note\n  d: 2\n")).toEqual([]);
+    });
+});
+
+describe("Indentation", () => {
+    function problems(doc: string) {
+        return lint(doc).map((d) => `${d.from}-${d.to} ${d.source} ${d.message}`);
+    }
+
+    test("a block must be indented one 2-space step deeper than its parent", () => {
+        expect(problems("a::\n    b: 1\n    c: 2\n")).toEqual([
+            "4-8 huml/indentation Expected indentation of 2 spaces (2 more than the parent line), found 4",
+        ]);
+        expect(problems("a::\n  b::\n   c: 1\n")).toEqual([
+            "10-13 huml/indentation Expected indentation of 4 spaces (2 more than the parent line), found 3",
+        ]);
+        expect(problems("- ::\n    - 1\n")).toEqual([
+            "5-9 huml/indentation Expected indentation of 2 spaces (2 more than the parent line), found 4",
+        ]);
+    });
+
+    test("a dedent between two blocks is reported where it lands", () => {
+        expect(problems("a::\n  b::\n    c: 1\n   d: 2\ne: 3\n")).toEqual([
+            "19-22 huml/indentation Dedent to column 3 does not match any enclosing block; expected 4 spaces",
+        ]);
+    });
+
+    test("the real indentation width is tracked", () => {
+        // Wider blocks are reported but still parse into the right structure
+        const state = EditorState.create({ doc: "a::\n    b::\n        c: 1\n    d: 2\ne: 3\n", extensions: [humlLanguage] });
+        expect(humlDiagnostics({ state }).map((d) => d.from)).toEqual([4, 12]);
+        expect(parser.parse(state.doc.toString()).toString()).not.toContain("⚠");
+        expect(lint("a::\n  b::\n    c: \"\"\"\n      text\n    \"\"\"\n  d: 2\n")).toEqual([]);
+    });
+
+    test("tabs are reported once, by the tab rule", () => {
+        expect(lint("a::\n\tb: 1\n").map((d) => d.source)).toEqual(["huml/tab-indent"]);
+    });
+
+    test("the quick fix re-indents the whole block", () => {
+        let state = EditorState.create({ doc: "a::\n    b::\n        c: 1\n  d: 2\ne: 3\n", extensions: [humlLanguage] });
+        fixAllHuml({ state, dispatch: (tr) => { state = tr.state; } });
+        expect(state.doc.toString()).toBe("a::\n  b::\n    c: 1\n  d: 2\ne: 3\n");
+        expect(humlDiagnostics({ state })).toEqual([]);
+    });
+});
+
+describe("Line endings", () => {
+    // Keep "\r\n" line breaks in the document instead of normalizing them
+    function lintKept(doc: string, options?: HumlLintOptions) {
+        const state = EditorState.create({ doc, extensions: [humlLanguage, EditorState.lineSeparator.of("\n")] });
+        return humlDiagnostics({ state }, options);
+    }
+
+    test("CRLF documents lint like LF documents", () => {
+        expect(lintKept("a: 1\r\nb::\r\n  c: 2 # x\r\n")).toEqual([]);
+        expect(lintKept("a: 1 \r\nb: 2\r\n").map((d) => `${d.from}-${d.to} ${d.source}`)).toEqual(["4-5 huml/trailing-whitespace"]);
+        expect(lint("\uFEFFa: 1\n")).toEqual([]);
+    });
+
+    test("mixed line endings are reported when the rule is enabled", () => {
+        const doc = "a: 1\r\nb: 2\nc: 3\r\n";
+        expect(lintKept(doc)).toEqual([]);
+        const diagnostics = lintKept(doc, { rules: { "huml/mixed-line-endings": "warn" } });
+        expect(diagnostics.map((d) => `${d.from}-${d.to} ${d.severity} ${d.message}`)).toEqual([
+            "10-10 warning Line ends with LF while most lines end with CRLF",
+        ]);
+        expect(diagnostics[0]!.actions!.map((a) => a.name)).toEqual(["Use CRLF"]);
+    });
+});
+
+describe("Rule configuration", () => {
+    const doc = "a: 1 \na: 2\n";
+
+    test("rules change severities or turn rules off", () => {
+        const diagnostics = lint(doc, { rules: { "huml/duplicate-key": "warn", "huml/trailing-whitespace": "off" } });
+        expect(diagnostics.map((d) => `${d.source} ${d.severity}`)).toEqual(["huml/duplicate-key warning"]);
+        expect(lint(doc).map((d) => `${d.source} ${d.severity}`)).toEqual(["huml/trailing-whitespace warning", "huml/duplicate-key error"]);
+    });
+
+    test("rules take precedence over severity overrides", () => {
+        const [diagnostic] = lint("a: 1\na: 2\n", { severity: { "huml/duplicate-key": "info" }, rules: { "huml/duplicate-key": "hint" } });
+        expect(diagnostic!.severity).toBe("hint");
+    });
+
+    test("every built-in code is in the registry", () => {
+        const codes = new Set(humlLintRules.map((rule) => rule.code));
+        const found = lint("a:1 \n\tb: \"x\ntrue: 1\na::[1]\na: 2\n}\n").map((d) => d.source!);
+        expect(found.filter((code) => !codes.has(code))).toEqual([]);
+    });
+
+    test("huml-disable-next-line suppresses the next line", () => {
+        expect(lint("a: 1\n# huml-disable-next-line\na: 2 \n")).toEqual([]);
+        expect(lint("# huml-disable-next-line\na: 1 \na: 2\n").map((d) => d.source)).toEqual(["huml/duplicate-key"]);
+        const named = lint("a: 1\n# huml-disable-next-line huml/duplicate-key\na: 2 \n");
+        expect(named.map((d) => d.source)).toEqual(["huml/trailing-whitespace"]);
+        const listed = lint("a: 1\n# huml-disable-next-line huml/duplicate-key, huml/trailing-whitespace\na: 2 \n");
+        expect(listed).toEqual([]);
+    });
+
+    test("suppression comments are read from comments only", () => {
+        const diagnostics = lint("a: \"# huml-disable-next-line\"\na: 2\n");
+        expect(diagnostics.map((d) => d.source)).toEqual(["huml/duplicate-key"]);
+    });
+
+    test("fixAllHuml skips disabled and suppressed rules", () => {
+        let state = EditorState.create({
+            doc: "a:1 \n# huml-disable-next-line\nb:2\n",
+            extensions: [humlLanguage, humlLinter({ rules: { "huml/trailing-whitespace": "off" } })],
+        });
+        fixAllHuml({ state, dispatch: (tr) => { state = tr.state; } });
+        expect(state.doc.toString()).toBe("a: 1 \n# huml-disable-next-line\nb:2\n");
+    });
+});
+
+describe("Quick fixes", () => {
+    // Run a diagnostic's action against a minimal stand-in for the editor view
+    function applyAction(doc: string, source: string, name: string): string {
+        let state = EditorState.create({ doc, extensions: [humlLanguage] });
+        const diagnostic = humlDiagnostics({ state }).find((d) => d.source === source)!;
+        const action = diagnostic.actions!.find((a) => a.name === name)!;
+        const view = { get state() { return state; }, dispatch: (spec: TransactionSpec) => { state = state.update(spec).state; } };
+        action.apply(view as unknown as EditorView, diagnostic.from, diagnostic.to);
+        return state.doc.toString();
+    }
+
+    test("each fixable rule offers an action", () => {
+        expect(applyAction("a:1\n", "huml/space-after-colon", "Insert space")).toBe("a: 1\n");
+        expect(applyAction("a::[]\n", "huml/space-after-double-colon", "Insert space")).toBe("a:: []\n");
+        expect(applyAction("a: 1  \n", "huml/trailing-whitespace", "Remove trailing whitespace")).toBe("a: 1\n");
+        expect(applyAction("a::\n\tb: 1\n", "huml/tab-indent", "Convert tabs to spaces")).toBe("a::\n  b: 1\n");
+        expect(applyAction("a::\n   b: 1\n   c: 2\n", "huml/indentation", "Indent by 2 spaces")).toBe("a::\n  b: 1\n  c: 2\n");
+        expect(applyAction("null: 1\n", "huml/reserved-key", "Quote key")).toBe("\"null\": 1\n");
+        expect(applyAction("a: \"open\n", "huml/unterminated-string", "Close string")).toBe("a: \"open\"\n");
+        expect(applyAction("a: 1\na_2: 2\na: 3\n", "huml/duplicate-key", "Rename to a_3")).toBe("a: 1\na_2: 2\na_3: 3\n");
+    });
+
+    test("reserved keys are found at any depth", () => {
+        const doc = "a::\n  true: 1\nl::\n  - :: null: 2\n";
+        expect(lint(doc).filter((d) => d.source === "huml/reserved-key").map((d) => doc.slice(d.from, d.to))).toEqual(["true", "null"]);
+        expect(applyAction("a::\n  true: 1\n", "huml/reserved-key", "Quote key")).toBe("a::\n  \"true\": 1\n");
+    });
+
+    test("line checks skip strings, comments and multiline content", () => {
+        const doc = "url: \"x, null: y\" # true: no\ntext: \"\"\"\n  keep  \n\t\"unclosed\n\"\"\"\n";
+        expect(lint(doc)).toEqual([]);
+    });
+
+    test("fixAllHuml applies every safe fix in one transaction", () => {
+        let state = EditorState.create({ doc: "a:1 \nb:: x:1, true: 2\na: 3\n", extensions: [humlLanguage] });
+        const transactions: number[] = [];
+        fixAllHuml({ state, dispatch: (tr) => { transactions.push(1); state = tr.state; } });
+        expect(transactions).toHaveLength(1);
+        // The duplicate key is left alone: renaming it is not a safe fix
+        expect(state.doc.toString()).toBe("a: 1\nb:: x: 1, \"true\": 2\na: 3\n");
+    });
+});
+
@@ -0,0 +1,115 @@
+import { describe, expect, test } from "bun:test";
+import { parse } from "./src/decoder";
+import { HumlDocument } from "./src/document";
+
+const source = [
+    "# Service config",
+    "name: \"demo\" # display name",
+    "",
+    "server:: # server section",
+    "  host: \"localhost\"",
+    "  ports:: 80, 443",
+    "  listeners::",
+    "    - ::",
+    "      port: 80",
+    "    # TLS listener",
+    "    - ::",
+    "      port: 443",
+    "",
+    "tags::",
+    "  - \"a\"",
+    "  - \"b\"",
+    "",
+].join("\n");
+
+function edited(fn: (doc: HumlDocument) => void): string {
+    const doc = new HumlDocument(source);
+    fn(doc);
+    // Every edit must leave a valid document behind
+    parse(doc.text);
+    return doc.text;
+}
+
+describe("HumlDocument", () => {
+    test("reads values by path", () => {
+        const doc = new HumlDocument(source);
+        expect(doc.get(["server", "listeners", 1, "port"])).toBe(443);
+        expect(doc.get(["server", "ports"])).toEqual([80, 443]);
+        expect(doc.get(["missing"])).toBeUndefined();
+        expect(doc.has(["tags", 1])).toBe(true);
+        expect(doc.has(["tags", 2])).toBe(false);
+    });
+
+    test("replaces a scalar with a minimal edit", () => {
+        const doc = new HumlDocument(source);
+        const edits = doc.set(["server", "host"], "example.com");
+        expect(edits).toHaveLength(1);
+        expect(source.slice(edits[0]!.from, edits[0]!.to)).toBe("\"localhost\"");
+        expect(doc.text).toBe(source.replace("\"localhost\"", "\"example.com\""));
+    });
+
+    test("keeps trailing comments when changing a value", () => {
+        const text = edited((doc) => doc.set(["name"], "other"));
+        expect(text).toContain("name: \"other\" # display name");
+    });
+
+    test("edits inline collections", () => {
+        expect(edited((doc) => doc.set(["server", "ports", 1], 8443))).toContain("ports:: 80, 8443\n");
+        expect(edited((doc) => doc.insert(["server", "ports"], 1, 99))).toContain("ports:: 80, 99, 443\n");
+    });
+
+    test("adds missing keys at the end of their block", () => {
+        const text = edited((doc) => doc.set(["server", "timeout"], 30));
+        expect(text).toContain("      port: 443\n  timeout: 30\n\ntags::");
+        expect(edited((doc) => doc.set(["db", "host"], "x"))).toEndWith("  - \"b\"\ndb::\n  host: \"x\"\n");
+    });
+
+    test("deletes properties and list items with their leading comments", () => {
+        const text = edited((doc) => doc.delete(["server", "listeners", 1]));
+        expect(text).not.toContain("# TLS listener");
+        expect(text).toContain("      port: 80\n\ntags::");
+        expect(edited((doc) => doc.delete(["server", "host"]))).not.toContain("host");
+        expect(edited((doc) => doc.delete(["tags", 0]))).toContain("tags::\n  - \"b\"\n");
+    });
+
+    test("turns emptied blocks into empty collections", () => {
+        const doc = new HumlDocument("a::\n  - 1\n");
+        doc.delete(["a", 0]);
+        expect(doc.text).toBe("a:: []\n");
+    });
+
+    test("inserts list items before leading comments", () => {
+        const text = edited((doc) => doc.insert(["server", "listeners"], 1, { port: 8080 }));
+        expect(text).toContain("      port: 80\n    - ::\n      port: 8080\n    # TLS listener\n");
+    });
+
+    test("leaves comments and blank lines elsewhere untouched", () => {
+        const text = edited((doc) => doc.set(["tags"], { replaced: true }));
+        expect(text.startsWith(source.slice(0, source.indexOf("tags::")))).toBe(true);
+        expect(text).toEndWith("tags::\n  replaced: true\n");
+    });
+
+    test("writes the line breaks the document uses", () => {
+        const edits: ((doc: HumlDocument) => void)[] = [
+            (doc) => doc.set(["server", "timeout"], 30),
+            (doc) => doc.set(["db", "host"], "x"),
+            (doc) => doc.set(["notes"], "line one\nline two"),
+            (doc) => doc.insert(["server", "listeners"], 1, { port: 8080 }),
+            (doc) => doc.delete(["server", "listeners", 1]),
+            (doc) => doc.delete(["tags", 1]),
+        ];
+        for (const edit of edits) {
+            const doc = new HumlDocument(source.replace(/\n/g, "\r\n"));
+            edit(doc);
+            parse(doc.text);
+            expect(doc.text).toBe(edited(edit).replace(/\n/g, "\r\n"));
+        }
+    });
+
+    test("rejects paths through scalars and out of range indexes", () => {
+        const doc = new HumlDocument(source);
+        expect(() => doc.set(["name", "first"], 1)).toThrow(TypeError);
+        expect(() => doc.set(["tags", 5], "x")).toThrow(RangeError);
+        expect(() => doc.insert(["name"], 0, 1)).toThrow(TypeError);
+    });
+});
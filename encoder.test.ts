@@ -0,0 +1,66 @@
+import { describe, expect, test } from "bun:test";
+import { parse, type HumlValue } from "./src/decoder";
+import { stringify } from "./src/encoder";
+import { parser } from "./src/huml-parser";
+import { hasParseErrors } from "./test-helpers";
+
+function expectRoundTrip(value: HumlValue) {
+    const text = stringify(value);
+    expect(hasParseErrors(parser.parse(text))).toBe(false);
+    expect(parse(text)).toEqual(value);
+}
+
+describe("Encoder", () => {
+    test("writes scalars with : and collections with ::", () => {
+        expect(stringify({ name: "demo", port: 8080, tls: true, proxy: null, ports: [80, 443] })).toBe(
+            'name: "demo"\nport: 8080\ntls: true\nproxy: null\nports:: 80, 443\n'
+        );
+    });
+
+    test("writes nested blocks indented by two spaces", () => {
+        expect(stringify({ server: { listeners: [{ port: 80 }, { port: 443, tls: true }] } }, { inlineWidth: 0 })).toBe(
+            "server::\n  listeners::\n    - ::\n      port: 80\n    - ::\n      port: 443\n      tls: true\n"
+        );
+    });
+
+    test("writes empty collections inline", () => {
+        expect(stringify({ a: [], b: {}, c: [[], {}] })).toBe("a:: []\nb:: {}\nc::\n  - :: []\n  - :: {}\n");
+        expect(stringify([])).toBe("[]\n");
+        expect(stringify({})).toBe("{}\n");
+    });
+
+    test("quotes keys that cannot be bare", () => {
+        expect(stringify({ true: 1, "-dash": 2, "with space": 3, "9lives": 4, ok_key: 5 })).toBe(
+            '"true": 1\n"-dash": 2\n"with space": 3\n"9lives": 4\nok_key: 5\n'
+        );
+    });
+
+    test("uses block strings for multiline text", () => {
+        expect(stringify({ text: "line one\n  indented" })).toBe('text: """\n  line one\n    indented\n"""\n');
+        // Text that would end the block early stays a quoted string
+        expect(stringify({ text: 'a\n"""' })).toBe('text: "a\\n\\"\\"\\""\n');
+    });
+
+    test("writes special numbers and the version directive", () => {
+        expect(stringify({ a: NaN, b: Infinity, c: -Infinity }, { version: "0.1.0" })).toBe(
+            "%HUML v0.1.0\na: nan\nb: inf\nc: -inf\n"
+        );
+    });
+
+    test("rejects circular structures", () => {
+        const value: Record<string, unknown> = {};
+        value.self = value;
+        expect(() => stringify(value)).toThrow(TypeError);
+    });
+
+    test("round-trips through the grammar", () => {
+        expectRoundTrip({
+            "%weird key": "value with \"quotes\" and \\ backslash\ttab",
+            nested: { deep: { list: [1, -2.5, { a: "x", b: [] }, ["a", "b"], "multi\nline\n", null, {}] } },
+            root_list: [[1, [2, [3]]]],
+        });
+        expectRoundTrip([1, "two\nlines", { three: 3 }]);
+        expectRoundTrip("just a string");
+        expectRoundTrip(42);
+    });
+});
@@ -0,0 +1,104 @@
+import { describe, expect, test } from "bun:test";
+import { EditorState } from "@codemirror/state";
+import { parse } from "./src/decoder";
+import { humlDiagnostics } from "./src/diagnostics";
+import { humlLanguage } from "./src/huml";
+
+// The syntax diagnostics of a document as "from-to message"
+function syntax(doc: string) {
+    return humlDiagnostics({ state: EditorState.create({ doc, extensions: [humlLanguage] }) })
+        .filter((d) => d.source === "huml/syntax")
+        .map((d) => `${d.from}-${d.to} ${d.message}`);
+}
+
+describe("Syntax error messages", () => {
+    test("unclosed multiline string", () => {
+        expect(syntax("a: \"\"\"\n  text\n")).toEqual(["3-6 Missing closing \"\"\" for the multiline string"]);
+        expect(syntax("a: ```\n  x\n")).toEqual(["3-6 Missing closing ``` for the multiline string"]);
+    });
+
+    test("closing delimiter at the wrong indentation", () => {
+        expect(syntax("a::\n  b: \"\"\"\n    text\n\"\"\"\n")).toEqual(["22-25 Closing \"\"\" must be indented to column 2 to match its key"]);
+    });
+
+    test("content on the opening line of a multiline string", () => {
+        expect(syntax("a: \"\"\"text\n  more\n\"\"\"\n")).toEqual(["6-10 The content of a multiline string starts on the line after \"\"\""]);
+    });
+
+    test("inline items without a space after the comma", () => {
+        expect(syntax("a:: 1,2\n")).toEqual(["6-6 Inline list items must be separated by \", \""]);
+        expect(syntax("a:: [1,2]\n")).toEqual(["7-7 Inline list items must be separated by \", \""]);
+        expect(syntax("a:: b: 1,c: 2\n")).toEqual(["9-9 Inline dict entries must be separated by \", \""]);
+    });
+
+    test("trailing comma in an inline list", () => {
+        expect(syntax("a:: 1, 2,\n")).toEqual(["9-9 Expected another item after \",\""]);
+    });
+
+    test("unclosed bracket", () => {
+        expect(syntax("a:: [1, 2\n")).toEqual(["9-9 Missing closing \"]\""]);
+    });
+
+    test("version directive after the first line", () => {
+        expect(syntax("a: 1\n%HUML v0.1.0\n")).toEqual(["5-10 The version directive must be the first line of the document"]);
+    });
+
+    test("malformed version directive", () => {
+        expect(syntax("%HUML 1.0\na: 1\n")).toEqual(["6-6 Expected a version like \"v0.1.0\" after \"%HUML\""]);
+    });
+
+    test("indented block under a scalar property", () => {
+        expect(syntax("a: 1\n  b: 2\n")).toEqual(["5-7 Unexpected indentation: only a \"key::\" line can be followed by an indented block"]);
+    });
+
+    test("indented block after a single colon", () => {
+        expect(syntax("a:\n  b: 1\n")).toEqual(["2-3 Expected a value after \":\"; use \"::\" to start an indented block"]);
+    });
+
+    test("missing values", () => {
+        expect(syntax("a:\nb: 1\n")).toEqual(["2-2 Expected a value after \":\""]);
+        expect(syntax("a::")).toEqual(["3-3 Expected a collection after \"::\""]);
+        expect(syntax("-\n")).toEqual(["1-1 Expected a value after \"-\""]);
+    });
+
+    test("key without a colon", () => {
+        expect(syntax("a 1\n")).toEqual(["1-1 Expected \":\" or \"::\" after key"]);
+    });
+
+    test("more than one space after a colon", () => {
+        expect(syntax("a:  1\n")).toEqual(["3-4 Expected a single space after \":\""]);
+    });
+
+    test("unquoted string value", () => {
+        expect(syntax("a: yes\n")).toEqual(["3-7 Unknown value \"yes\": strings must be quoted"]);
+    });
+
+    test("invalid escape sequence", () => {
+        expect(syntax("a: \"x\\q\"\n")).toEqual(["3-9 Invalid escape sequence \"\\q\" in string"]);
+    });
+
+    test("comment without a space", () => {
+        expect(syntax("a: 1 #note\n")).toEqual(["6-6 Comments must have a space after \"#\""]);
+    });
+
+    test("list items mixed with key-value pairs", () => {
+        expect(syntax("a: 1\n- 2\n")).toEqual(["5-9 List items and key-value pairs cannot be mixed in the same block"]);
+        expect(syntax("- 1\nb: 2\n")).toEqual(["4-9 List items and key-value pairs cannot be mixed in the same block"]);
+    });
+
+    test("inline list mixed with an inline dict", () => {
+        expect(syntax("a:: 1, b: 2\n")).toEqual(["7-8 Inline lists and inline dicts cannot be mixed"]);
+    });
+
+    test("errors explained by a more specific rule are not repeated", () => {
+        expect(syntax("a:1\nb: \"open\ntrue: 1\nc: 1 \n")).toEqual([]);
+    });
+
+    test("parse() reports the same messages", () => {
+        expect(() => parse("a: \"\"\"\n  text\n")).toThrow("Missing closing \"\"\" for the multiline string (line 1, column 4)");
+        expect(() => parse("a:1\n")).toThrow("Expected space after :");
+        expect(() => parse("a: \"open\n")).toThrow("Unterminated string");
+        expect(() => parse("true: 1\n")).toThrow("\"true\" is a reserved word and must be quoted to be used as a key");
+        expect(() => parse("a: 1 \nb: 2\n")).toThrow("Trailing whitespace");
+    });
+});
@@ -0,0 +1,80 @@
+import { describe, expect, test } from "bun:test";
+import { foldable, foldedRanges } from "@codemirror/language";
+import { EditorSelection, EditorState, type StateCommand } from "@codemirror/state";
+import { huml } from "./src/huml";
+import { foldSummary, foldToDepth, unfoldToCursor } from "./src/fold";
+
+function create(doc: string) {
+    return EditorState.create({ doc, extensions: [huml()] });
+}
+
+// The foldable range of line `n`, as the folded text
+function foldedText(state: EditorState, n: number) {
+    const line = state.doc.line(n);
+    const range = foldable(state, line.from, line.to);
+    return range && state.sliceDoc(range.from, range.to);
+}
+
+// Run `command` and return the resulting state
+function run(state: EditorState, command: StateCommand) {
+    let next = state;
+    const handled = command({ state, dispatch: (tr) => { next = tr.state; } });
+    return { handled, state: next };
+}
+
+function folded(state: EditorState) {
+    const ranges: string[] = [];
+    foldedRanges(state).between(0, state.doc.length, (from, to) => { ranges.push(`${state.doc.lineAt(from).number}-${state.doc.lineAt(to).number}`); });
+    return ranges;
+}
+
+const nested = "a::\n  b::\n    c: 1\n    d: 2\n  e: 3\nf::\n  - 1\n  - 2\n";
+
+describe("Fold ranges", () => {
+    test("multiline strings fold between their delimiters", () => {
+        const state = create("text: \"\"\"\n  one\n  two\n\"\"\"\nfolded: ```\n  x\n```\n");
+        expect(foldedText(state, 1)).toBe("\n  one\n  two\n");
+        expect(foldedText(state, 5)).toBe("\n  x\n");
+        expect(foldedText(state, 2)).toBeNull();
+    });
+
+    test("long inline collections fold, short ones do not", () => {
+        const state = create("long:: [\"alpha\", \"beta\", \"gamma\", \"delta\", \"epsilon\"]\nshort:: [1, 2]\ndict:: alpha: \"one\", beta: \"two\", gamma: \"three\", delta: 4\n");
+        expect(foldedText(state, 1)).toBe("\"alpha\", \"beta\", \"gamma\", \"delta\", \"epsilon\"");
+        expect(foldedText(state, 2)).toBeNull();
+        expect(foldedText(state, 3)).toBe("alpha: \"one\", beta: \"two\", gamma: \"three\", delta: 4");
+    });
+
+    test("placeholders count what is folded", () => {
+        const summary = (doc: string, n = 1) => {
+            const state = create(doc);
+            const line = state.doc.line(n);
+            return foldSummary(state, foldable(state, line.from, line.to)!);
+        };
+        expect(summary(nested)).toBe("… 2 keys");
+        expect(summary(nested, 6)).toBe("… 2 items");
+        expect(summary("a:: [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15]\n")).toBe("… 15 items");
+        expect(summary("t: \"\"\"\n  one\n\"\"\"\n")).toBe("… 1 line");
+        expect(foldSummary(create(nested), { from: 0, to: 3 })).toBe("…");
+    });
+});
+
+describe("Fold commands", () => {
+    test("foldToDepth folds the blocks at a nesting depth", () => {
+        const top = run(create(nested), foldToDepth(0));
+        expect(top.handled).toBe(true);
+        expect(folded(top.state)).toEqual(["1-5", "6-8"]);
+        expect(run(top.state, foldToDepth(0)).handled).toBe(false);
+
+        expect(folded(run(create(nested), foldToDepth(1)).state)).toEqual(["2-4"]);
+        expect(run(create(nested), foldToDepth(2)).handled).toBe(false);
+    });
+
+    test("unfoldToCursor reveals the blocks around the cursor", () => {
+        const start = EditorState.create({ doc: nested, selection: EditorSelection.cursor(nested.indexOf("- 2")), extensions: [huml()] });
+        const result = run(run(start, foldToDepth(0)).state, unfoldToCursor);
+        expect(result.handled).toBe(true);
+        expect(folded(result.state)).toEqual(["1-5"]);
+        expect(run(result.state, unfoldToCursor).handled).toBe(false);
+    });
+});
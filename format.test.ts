@@ -0,0 +1,99 @@
+import { describe, expect, test } from "bun:test";
+import { EditorState } from "@codemirror/state";
+import { parse } from "./src/decoder";
+import { format, formatHuml } from "./src/format";
+import { humlLanguage } from "./src/huml";
+
+describe("Formatter", () => {
+    test("normalizes spacing after double colons and before comments", () => {
+        expect(format("a: 1    # one\nb::   []\nc::  x: 1, y: 2\nd::   # note\n  - 1\n")).toBe(
+            "a: 1 # one\nb:: []\nc:: x: 1, y: 2\nd:: # note\n  - 1\n"
+        );
+    });
+
+    test("re-indents blocks to two spaces per level", () => {
+        const input = [
+            "server::",
+            "    port: 80",
+            "    listeners::",
+            "        - 1",
+            "        - ::",
+            "              tls: true",
+            "name: \"x\"",
+        ].join("\n");
+        expect(format(input)).toBe([
+            "server::",
+            "  port: 80",
+            "  listeners::",
+            "    - 1",
+            "    - ::",
+            "      tls: true",
+            "name: \"x\"",
+            "",
+        ].join("\n"));
+    });
+
+    test("preserves comments and string contents", () => {
+        const input = "# header\n\n\n\nurl: \"http://a:b,  c\"   #  keep  this\nlist::\n    # first\n    - 1\n";
+        expect(format(input)).toBe("# header\n\nurl: \"http://a:b,  c\" #  keep  this\nlist::\n  # first\n  - 1\n");
+    });
+
+    test("shifts multiline strings with their key", () => {
+        const input = "a::\n    text: \"\"\"\n      line\n        indented\n    \"\"\"\n";
+        const output = format(input);
+        expect(output).toBe("a::\n  text: \"\"\"\n    line\n      indented\n  \"\"\"\n");
+        expect(parse(output)).toEqual({ a: { text: "line\n  indented" } });
+    });
+
+    test("aligns trailing comments on request", () => {
+        expect(format("a: 1 # one\nlonger: 2 # two\n\nz: 3 # z\n", { alignComments: true })).toBe(
+            "a: 1      # one\nlonger: 2 # two\n\nz: 3 # z\n"
+        );
+    });
+
+    test("is idempotent", () => {
+        const once = format("x: 1\n\n\n\ny::\n   - \"a\"\n   - ::  [1, 2]\n", { maxBlankLines: 2 });
+        expect(once).toBe("x: 1\n\n\ny::\n  - \"a\"\n  - :: [1, 2]\n");
+        expect(format(once, { maxBlankLines: 2 })).toBe(once);
+    });
+
+    test("leaves documents with syntax errors unchanged", () => {
+        expect(format("a: [\nb: 1\n")).toBe("a: [\nb: 1\n");
+        expect(format("a::  x: \"1, 2\", y: [ ]\n")).toBe("a::  x: \"1, 2\", y: [ ]\n");
+
+        const state = EditorState.create({ doc: "a:: \n" });
+        expect(formatHuml({ state, dispatch: () => { throw new Error("should not dispatch"); } })).toBe(false);
+    });
+
+    test("leaves spacing the grammar rejects to formatHuml", () => {
+        for (const text of ["port:8080\n", "a: 1   \n", "a:: [1,2]\n", "a:  1\n"]) expect(format(text)).toBe(text);
+    });
+
+    test("formatHuml applies the safe fixes first", () => {
+        const run = (doc: string) => {
+            let state = EditorState.create({ doc, extensions: [humlLanguage] });
+            const handled = formatHuml({ state, dispatch: (tr) => { state = tr.state; } });
+            return { handled, text: state.doc.toString() };
+        };
+        expect(run("server::\n    port:8080   \n    hosts::[\"a\", \"b\"]\n")).toEqual({
+            handled: true,
+            text: "server::\n  port: 8080\n  hosts:: [\"a\", \"b\"]\n",
+        });
+        // No fix adds the space after a comma
+        expect(run("a:: [1,2]\n")).toEqual({ handled: false, text: "a:: [1,2]\n" });
+    });
+
+    test("formatHuml replaces only the changed span", () => {
+        let state = EditorState.create({ doc: "keep: 1\nfix::  2\nkeep_too: 3\n" });
+        formatHuml({ state, dispatch: (tr) => { state = tr.state; } });
+        expect(state.doc.toString()).toBe("keep: 1\nfix:: 2\nkeep_too: 3\n");
+    });
+
+    test("keeps or converts line endings and the byte order mark", () => {
+        expect(format("a: 1\r\nb::\r\n    c: 2\r\n")).toBe("a: 1\r\nb::\r\n  c: 2\r\n");
+        expect(format("a: 1\r\nb: 2\r\n", { lineEnding: "lf" })).toBe("a: 1\nb: 2\n");
+        expect(format("a: 1\nb: 2\n", { lineEnding: "crlf" })).toBe("a: 1\r\nb: 2\r\n");
+        expect(format("\uFEFFa:  1\n")).toBe("\uFEFFa:  1\n");
+        expect(format("\uFEFFa:: 1\n\n\n")).toBe("\uFEFFa:: 1\n");
+    });
+});
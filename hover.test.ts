@@ -0,0 +1,58 @@
+import { describe, expect, test } from "bun:test";
+import { EditorState } from "@codemirror/state";
+import { hoverInfo } from "./src/hover";
+import { humlLanguage } from "./src/language";
+import type { JsonSchema } from "./src/schema";
+
+const doc = [
+    "server::",
+    "  listeners::",
+    "    - :: port: 80, tls: false",
+    "    - ::",
+    "      port: 0x1F90",
+    "  \"max size\": 1_000",
+    "mode: 0o755",
+    "limit: -inf",
+    "name: \"tab\\there\"",
+    "plain: \"text\"",
+    "",
+].join("\n");
+
+const state = EditorState.create({ doc, extensions: [humlLanguage] });
+
+function at(search: string, offset = 1, schema?: JsonSchema) {
+    return hoverInfo(state, doc.indexOf(search) + offset, 1, schema);
+}
+
+describe("Hover", () => {
+    test("shows the full path of a key", () => {
+        expect(at("listeners")?.path).toBe("server.listeners");
+        expect(at("tls")?.path).toBe("server.listeners[0].tls");
+        expect(at("port: 0x")?.path).toBe("server.listeners[1].port");
+        expect(at("\"max size\"")?.path).toBe("server[\"max size\"]");
+    });
+
+    test("shows decoded numbers and strings", () => {
+        expect(at("0x1F90")?.value).toBe("8080");
+        expect(at("1_000")?.value).toBe("1000");
+        expect(at("0o755")?.value).toBe("493");
+        expect(at("-inf")?.value).toBe("-Infinity");
+        expect(at("\"tab")?.value).toBe("tab\there");
+    });
+
+    test("plain values get no tooltip", () => {
+        expect(at("80")).toBeNull();
+        expect(at("\"text\"")).toBeNull();
+        expect(at("false")).toBeNull();
+    });
+
+    test("includes the schema description", () => {
+        const schema: JsonSchema = {
+            properties: {
+                mode: { title: "Mode", description: "File permissions" },
+            },
+        };
+        expect(at("mode", 1, schema)).toMatchObject({ path: "mode", title: "Mode", description: "File permissions" });
+        expect(at("0o755", 1, schema)).toMatchObject({ value: "493", description: "File permissions" });
+    });
+});
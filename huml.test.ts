@@ -0,0 +1,35 @@
+import { describe, expect, test } from "bun:test";
+import type { CompletionSource } from "@codemirror/autocomplete";
+import { foldable } from "@codemirror/language";
+import { EditorState } from "@codemirror/state";
+import { huml, humlLanguage, type HumlConfig } from "./src/huml";
+
+function create(doc: string, config?: HumlConfig) {
+    return EditorState.create({ doc, extensions: [huml(config)] });
+}
+
+describe("huml() configuration", () => {
+    test("folds blocks after key:: lines", () => {
+        const state = create("server:: # main\n  host: \"x\"\n  port: 1\nname: \"a\"\n");
+        const line = state.doc.line(1);
+        expect(foldable(state, line.from, line.to)).toEqual({ from: line.to, to: state.doc.line(3).to });
+        expect(foldable(state, state.doc.line(4).from, state.doc.line(4).to)).toBeNull();
+    });
+
+    test("without folding, only the language's block folding is left", () => {
+        const state = create("server::\n  host: \"x\"\ntext: \"\"\"\n  a\n\"\"\"\n", { folding: false });
+        const line = state.doc.line(1);
+        expect(foldable(state, line.from, line.to)).toEqual({ from: line.to, to: state.doc.line(2).to });
+        expect(foldable(state, state.doc.line(3).from, state.doc.line(3).to)).toBeNull();
+
+        const bare = EditorState.create({ doc: state.doc, extensions: [humlLanguage] });
+        expect(foldable(bare, line.from, line.to)).toEqual({ from: line.to, to: state.doc.line(2).to });
+    });
+
+    test("registers completion sources as language data", () => {
+        const extra: CompletionSource = () => null;
+        expect(create("a: 1").languageDataAt("autocomplete", 0)).toHaveLength(2);
+        expect(create("a: 1", { completion: { sources: [extra] } }).languageDataAt("autocomplete", 0)).toHaveLength(3);
+        expect(create("a: 1", { completion: false }).languageDataAt("autocomplete", 0)).toHaveLength(0);
+    });
+});
@@ -0,0 +1,131 @@
+import { describe, expect, test } from "bun:test";
+import { ensureSyntaxTree } from "@codemirror/language";
+import type { Diagnostic } from "@codemirror/lint";
+import { EditorState, type ChangeSpec, type Text } from "@codemirror/state";
+import { humlDiagnostics, humlLinter } from "./src/diagnostics";
+import { humlLanguage } from "./src/huml";
+import { LineCache, treeFacts, type LineProblem } from "./src/incremental";
+import { validateTree } from "./src/validator";
+
+function create(doc: string, linted = true) {
+    const state = EditorState.create({ doc, extensions: linted ? [humlLanguage, humlLinter()] : [humlLanguage] });
+    ensureSyntaxTree(state, state.doc.length, 10000);
+    return state;
+}
+
+function edit(state: EditorState, changes: ChangeSpec) {
+    const next = state.update({ changes }).state;
+    ensureSyntaxTree(next, next.doc.length, 10000);
+    return next;
+}
+
+function summary(diagnostics: Diagnostic[]) {
+    return diagnostics.map((d) => `${d.from}-${d.to} ${d.source} ${d.severity} ${d.message}`).sort();
+}
+
+// `count` services of five lines each
+function services(count: number) {
+    let text = "";
+    for (let i = 0; i < count; i++) {
+        text += `service_${i}::\n  name: "svc ${i}"\n  port: ${8000 + i}\n  tags:: "a", "b"\n  # owner: team ${i % 7}\n`;
+    }
+    return text;
+}
+
+// `doc`, counting the calls made on it
+function counted(doc: Text) {
+    const reads = { count: 0 };
+    const proxy = new Proxy(doc, {
+        get(target, prop) {
+            const value = Reflect.get(target, prop, target);
+            if (typeof value !== "function") return value;
+            return (...args: unknown[]) => {
+                reads.count++;
+                return value.apply(target, args);
+            };
+        },
+    });
+    return { doc: proxy as Text, reads };
+}
+
+// How often collecting the tree facts of `state` reads its document
+function factReads(state: EditorState) {
+    const { doc, reads } = counted(state.doc);
+    treeFacts(ensureSyntaxTree(state, state.doc.length, 10000)!, doc);
+    return reads.count;
+}
+
+describe("Incremental linting", () => {
+    test("results after edits match a fresh lint", () => {
+        let state = create(services(12));
+        humlDiagnostics({ state });
+
+        const edits: ChangeSpec[] = [
+            { from: 0, insert: "\t" },
+            { from: 0, to: 1 },
+            { from: 30, insert: "  port:1 \n" },
+            // Open a multiline string that swallows the lines below it, then close it
+            { from: 81, insert: "  notes: \"\"\"\n" },
+            { from: 163, insert: "  \"\"\"\n" },
+            { from: 81, to: 94 },
+            { from: 200, insert: "  name: \"dup\"\n" },
+            // Misindent a block's first line, then a line in the middle
+            { from: 12, insert: " " },
+            { from: 12, to: 13 },
+            { from: 30, insert: " " },
+        ];
+        for (const changes of edits) {
+            state = edit(state, changes);
+            const fresh = create(state.doc.toString(), false);
+            expect(summary(humlDiagnostics({ state }))).toEqual(summary(humlDiagnostics({ state: fresh })));
+        }
+    });
+
+    test("cached duplicate-key results match validateTree", () => {
+        let state = create("a::\n  x: 1\n  y: 2\nb: 3\n" + services(20));
+        humlDiagnostics({ state });
+        state = edit(state, { from: 11, insert: "  x: 3\n" });
+        state = edit(state, { from: state.doc.length, insert: "a: 4\n" });
+
+        const tree = ensureSyntaxTree(state, state.doc.length)!;
+        const byPosition = (a: { from: number }, b: { from: number }) => a.from - b.from;
+        const cached = [...treeFacts(tree, state.doc).issues].sort(byPosition);
+        expect(cached).toHaveLength(2);
+        expect(cached).toEqual(validateTree(tree, state.doc.toString()).sort(byPosition));
+    });
+
+    test("lint work grows linearly with document size", () => {
+        const small = factReads(create(services(1000), false));
+        const large = factReads(create(services(4000), false));
+        expect(large).toBeLessThan(small * 4 * 1.05);
+    });
+
+    test("re-linting after a small edit skips the unchanged document", () => {
+        let state = create(services(4000), false);
+        const full = factReads(state);
+
+        // The first edit after loading rebuilds the tree from the initial
+        // parse; measure later edits, the common case while typing
+        state = edit(state, { from: 0, insert: "#\n" });
+        factReads(state);
+        state = edit(state, { from: 20, insert: "x" });
+        expect(factReads(state)).toBeLessThan(full / 100);
+    });
+
+    test("line checks rerun only on changed lines", () => {
+        let checked = 0;
+        const check = () => {
+            checked++;
+            return [];
+        };
+        const state = create(services(1000), false);
+        const cache = new LineCache<LineProblem>();
+        cache.refresh(state.doc, [], check);
+        expect(checked).toBe(state.doc.lines);
+
+        const tr = state.update({ changes: { from: 20, insert: "x\ny" } });
+        checked = 0;
+        cache.map(tr.changes).refresh(tr.state.doc, [], check);
+        expect(checked).toBe(2);
+    });
+});
@@ -1,6 +1,7 @@
-import { describe, test } from "bun:test";
-import { readFileSync, readdirSync, statSync } from "node:fs";
+import { describe, expect, test } from "bun:test";
+import { existsSync, readFileSync, readdirSync, statSync } from "node:fs";
 import { join } from "node:path";
+import { parse } from "./src/decoder";
 import { parser } from "./src/huml-parser";
 import { validateTree } from "./src/validator";
 import { hasParseErrors } from "./test-helpers";
@@ -25,7 +26,7 @@ describe("Official HUML Tests", () => {
 
                 if (!errorExpected && hasErrors) {
                     if (hasSyntaxErrors) throw new Error("unexpected parse error");
-                    if (hasValidationErrors) throw new Error(`unexpected validation error: ${validationErrors.join(", ")}`);
+                    if (hasValidationErrors) throw new Error(`unexpected validation error: ${validationErrors.map((issue) => issue.message).join(", ")}`);
                 }
             });
         };
@@ -104,6 +105,13 @@ describe("Official HUML Tests", () => {
                     if (!tree.topNode) {
                         throw new Error(`Failed to parse ${filePath.split("/").pop()}`);
                     }
+
+                    // Compare the decoded value with the expected JSON shipped next to the document
+                    const jsonPath = filePath.replace(/\.huml$/, ".json");
+                    if (existsSync(jsonPath)) {
+                        const expected = JSON.parse(readFileSync(jsonPath, "utf8"));
+                        expect(parse(humlContent)).toEqual(expected);
+                    }
                 });
             }
         } catch (err) {
@@ -0,0 +1,64 @@
+import { describe, expect, test } from "bun:test";
+import { parser } from "./src/huml-parser";
+import { documentSymbols, symbolAt, type DocumentSymbol } from "./src/outline";
+
+const text = [
+    "name: \"api\"",
+    "server::",
+    "  port: 8080",
+    "  hosts:: \"a\", \"b\"",
+    "  listeners::",
+    "    - :: port: 80, tls: false",
+    "    - null",
+    "",
+    "notes: \"\"\"",
+    "  multi",
+    "\"\"\"",
+    "",
+].join("\n");
+
+const symbols = documentSymbols(parser.parse(text), text);
+
+// Names and kinds only, to keep expectations readable
+function shape(list: DocumentSymbol[]): unknown[] {
+    return list.map((symbol) => symbol.children.length
+        ? [symbol.name, symbol.kind, shape(symbol.children)]
+        : [symbol.name, symbol.kind]);
+}
+
+describe("Document outline", () => {
+    test("nests keys and list items with their kinds", () => {
+        expect(shape(symbols)).toEqual([
+            ["name", "string"],
+            ["server", "dict", [
+                ["port", "number"],
+                ["hosts", "list", [["[0]", "string"], ["[1]", "string"]]],
+                ["listeners", "list", [
+                    ["[0]", "dict", [["port", "number"], ["tls", "boolean"]]],
+                    ["[1]", "null"],
+                ]],
+            ]],
+            ["notes", "string"],
+        ]);
+    });
+
+    test("ranges cover the entry and selection ranges its key or list mark", () => {
+        const server = symbols[1]!;
+        expect(text.slice(server.from, server.to)).toBe(text.slice(text.indexOf("server"), text.indexOf("    - null") + 10));
+        expect(text.slice(server.selectionFrom, server.selectionTo)).toBe("server");
+
+        const item = server.children[2]!.children[1]!;
+        expect(text.slice(item.from, item.to)).toBe("- null");
+        expect(text.slice(item.selectionFrom, item.selectionTo)).toBe("-");
+    });
+
+    test("symbolAt finds the innermost symbol at a position", () => {
+        expect(symbolAt(symbols, text.indexOf("tls"))?.name).toBe("tls");
+        expect(symbolAt(symbols, text.indexOf("8080"))?.name).toBe("port");
+        expect(symbolAt(symbols, text.indexOf("multi"))?.name).toBe("notes");
+    });
+
+    test("scalar roots have no symbols", () => {
+        expect(documentSymbols(parser.parse("\"just text\""), "\"just text\"")).toEqual([]);
+    });
+});
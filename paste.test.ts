@@ -0,0 +1,64 @@
+import { describe, expect, test } from "bun:test";
+import { EditorState } from "@codemirror/state";
+import { parser } from "./src/huml-parser";
+import { humlLanguage } from "./src/language";
+import { pastedJSONAsHuml } from "./src/paste";
+
+const json = '{"port": 80, "hosts": ["a", "b"]}';
+
+// Paste at the `|` marker and return the resulting document
+function paste(doc: string, text = json): string | null {
+    const pos = doc.indexOf("|");
+    const state = EditorState.create({ doc: doc.replace("|", ""), extensions: [humlLanguage] });
+    const replacement = pastedJSONAsHuml(state, pos, pos, text);
+    return replacement && state.sliceDoc(0, replacement.from) + replacement.insert + state.sliceDoc(pos);
+}
+
+// Whether `doc` parses without syntax errors
+function parses(doc: string | null) {
+    let valid = doc !== null;
+    parser.parse(doc ?? "").iterate({ enter: (node) => { if (node.type.isError) valid = false; } });
+    return valid;
+}
+
+describe("Paste JSON as HUML", () => {
+    test("indents a block pasted on its own line to the surrounding block", () => {
+        expect(paste("server::\n  name: \"x\"\n  |\nend: 1")).toBe(
+            "server::\n  name: \"x\"\n  port: 80\n  hosts:: \"a\", \"b\"\nend: 1"
+        );
+        expect(paste("server::\n|")).toBe("server::\n  port: 80\n  hosts:: \"a\", \"b\"");
+        expect(paste("|")).toBe("port: 80\nhosts:: \"a\", \"b\"");
+    });
+
+    test("turns a value after a key or list mark into a block", () => {
+        expect(paste("a: 1\nserver:: |")).toBe("a: 1\nserver::\n  port: 80\n  hosts:: \"a\", \"b\"");
+        expect(paste("items::\n  - |")).toBe("items::\n  - ::\n    port: 80\n    hosts:: \"a\", \"b\"");
+        expect(paste("list:: |", "[1, 2]")).toBe("list:: 1, 2");
+    });
+
+    test("writes list items when pasted among list items", () => {
+        const items = paste("items::\n  - 1\n  |\nend: 1", "[2, {\"a\": 3}]");
+        expect(items).toBe("items::\n  - 1\n  - 2\n  - ::\n    a: 3\nend: 1");
+        expect(parses(items)).toBe(true);
+        const item = paste("- 1\n|");
+        expect(item).toBe("- 1\n- ::\n  port: 80\n  hosts:: \"a\", \"b\"");
+        expect(parses(item)).toBe(true);
+        expect(paste("a: 1\n|", "[1, 2]")).toBeNull();
+    });
+
+    test("pasted results parse", () => {
+        for (const doc of ["server::\n  name: \"x\"\n  |\nend: 1", "a: 1\nserver:: |", "items::\n  - |", "|"]) {
+            expect(parses(paste(doc))).toBe(true);
+        }
+        // Not a place for a block value
+        expect(paste("items::\n  - :: a: |")).toBeNull();
+    });
+
+    test("leaves other pastes alone", () => {
+        expect(paste("|", "not json")).toBeNull();
+        expect(paste("|", "42")).toBeNull();
+        expect(paste("|", "{}")).toBeNull();
+        expect(paste("a: |1")).toBeNull();
+        expect(paste("name: \"x|\"")).toBeNull();
+    });
+});
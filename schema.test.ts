@@ -0,0 +1,105 @@
+import { describe, expect, test } from "bun:test";
+import { CompletionContext } from "@codemirror/autocomplete";
+import { EditorState } from "@codemirror/state";
+import { humlLanguage } from "./src/huml";
+import { parser } from "./src/huml-parser";
+import { schemaCompletions, schemasAt, validateSchema, type JsonSchema } from "./src/schema";
+
+const schema: JsonSchema = {
+    type: "object",
+    required: ["name", "server"],
+    additionalProperties: false,
+    properties: {
+        name: { type: "string", description: "Service name", pattern: "^[a-z-]+$" },
+        server: {
+            type: "object",
+            properties: {
+                port: { type: "integer", minimum: 1, maximum: 65535, description: "Listen port" },
+                level: { enum: ["debug", "info", "warn"] },
+                hosts: { type: "array", items: { type: "string" }, minItems: 1 },
+                listeners: {
+                    type: "array",
+                    items: { type: "object", required: ["port"], properties: { port: { type: "integer" }, tls: { type: "boolean" } } },
+                },
+            },
+        },
+        limit: { oneOf: [{ type: "integer" }, { enum: ["unlimited"] }] },
+    },
+};
+
+function validate(input: string) {
+    return validateSchema(parser.parse(input), input, schema).map((issue) => ({
+        code: issue.code,
+        text: input.slice(issue.from, issue.to),
+        message: issue.message,
+    }));
+}
+
+function complete(doc: string) {
+    const pos = doc.indexOf("|");
+    const state = EditorState.create({ doc: doc.replace("|", ""), extensions: [humlLanguage] });
+    return schemaCompletions(new CompletionContext(state, pos, true), schema);
+}
+
+describe("JSON Schema support", () => {
+    test("accepts a valid document", () => {
+        expect(validate('name: "api"\nserver::\n  port: 8080\n  hosts:: "a", "b"\nlimit: "unlimited"\n')).toEqual([]);
+    });
+
+    test("reports type mismatches on the value", () => {
+        expect(validate('name: "api"\nserver::\n  port: "80"\n')).toEqual([
+            { code: "huml/schema-type", text: "\"80\"", message: "Expected integer but found string" },
+        ]);
+    });
+
+    test("reports missing required keys on the owning key", () => {
+        expect(validate('name: "api"\nserver::\n  listeners::\n    - ::\n      tls: true\n')).toEqual([
+            { code: "huml/schema-required", text: "-", message: "Missing required key \"port\"" },
+        ]);
+        expect(validate('name: "api"\n').map((issue) => issue.message)).toEqual(["Missing required key \"server\""]);
+    });
+
+    test("checks enum, pattern, ranges, items and additional properties", () => {
+        const issues = validate('name: "API"\nserver::\n  port: 70000\n  level: "trace"\n  hosts:: []\nextra: 1\n');
+        expect(issues.map((issue) => issue.code)).toEqual([
+            "huml/schema-pattern",
+            "huml/schema-range",
+            "huml/schema-enum",
+            "huml/schema-items",
+            "huml/schema-additional-property",
+        ]);
+        expect(issues[4]!.text).toBe("extra");
+    });
+
+    test("ignores patterns that are not valid regular expressions", () => {
+        const broken: JsonSchema = { properties: { name: { type: "string", pattern: "([a-z" } } };
+        expect(validateSchema(parser.parse('name: "api"\n'), 'name: "api"\n', broken)).toEqual([]);
+    });
+
+    test("checks oneOf alternatives", () => {
+        expect(validate('name: "a"\nserver:: {}\nlimit: 10\n')).toEqual([]);
+        expect(validate('name: "a"\nserver:: {}\nlimit: "lots"\n').map((issue) => issue.code)).toEqual(["huml/schema-type"]);
+    });
+
+    test("resolves schemas by path", () => {
+        expect(schemasAt(schema, ["server", "listeners", 0, "port"])).toEqual([{ type: "integer" }]);
+        expect(schemasAt(schema, ["missing"])).toEqual([]);
+    });
+
+    test("completes keys that are not present yet", () => {
+        const result = complete('name: "a"\nserver::\n  port: 1\n  l|\n');
+        expect(result?.options.map((option) => option.label)).toEqual(["level", "hosts", "listeners"]);
+        expect(result?.options.find((option) => option.label === "hosts")?.apply).toBe("hosts:: ");
+        expect(result?.options.find((option) => option.label === "level")?.apply).toBe("level: ");
+    });
+
+    test("completes enum values after key:", () => {
+        const result = complete('server::\n  level: |\n');
+        expect(result?.options.map((option) => option.label)).toEqual(["\"debug\"", "\"info\"", "\"warn\""]);
+    });
+
+    test("decodes quoted keys with HUML escapes", () => {
+        expect(complete('server::\n  "lev\\x": |\n')).toBeNull();
+        expect(complete('server::\n  "lev\\u0065l": |\n')?.options.map((option) => option.label)).toEqual(["\"debug\"", "\"info\"", "\"warn\""]);
+    });
+});
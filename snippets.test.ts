@@ -0,0 +1,71 @@
+import { describe, expect, test } from "bun:test";
+import { CompletionContext, type Completion } from "@codemirror/autocomplete";
+import { EditorState, type TransactionSpec, Transaction } from "@codemirror/state";
+import type { EditorView } from "@codemirror/view";
+import { huml } from "./src/huml";
+import { humlSnippets, snippetCompletions, type HumlSnippet } from "./src/snippets";
+
+function complete(doc: string, snippets: readonly HumlSnippet[] = humlSnippets, explicit = false) {
+    const pos = doc.indexOf("|");
+    const state = EditorState.create({ doc: doc.replace("|", ""), extensions: [huml()] });
+    return { state, result: snippetCompletions(new CompletionContext(state, pos, explicit), snippets) };
+}
+
+// Apply the snippet labelled `label` at the `|` in `doc` and return the new document
+function expand(doc: string, label: string, snippets?: readonly HumlSnippet[]) {
+    return expandWith(doc, label, snippets).text;
+}
+
+// Like `expand`, also counting the transactions dispatched
+function expandWith(doc: string, label: string, snippets?: readonly HumlSnippet[]) {
+    const { state, result } = complete(doc, snippets, true);
+    const option = result!.options.find((o) => o.label === label)!;
+    // The state-only part of a view that snippets use
+    const view = {
+        state,
+        transactions: 0,
+        dispatch(spec: Transaction | TransactionSpec) {
+            this.state = spec instanceof Transaction ? spec.state : this.state.update(spec).state;
+            this.transactions++;
+        },
+    };
+    const apply = option.apply as (view: EditorView, completion: Completion, from: number, to: number) => void;
+    apply(view as unknown as EditorView, option, result!.from, doc.indexOf("|"));
+    return { text: view.state.doc.toString(), transactions: view.transactions, state: view.state };
+}
+
+describe("Snippets", () => {
+    test("offers entry, value and start snippets where they fit", () => {
+        const labels = (doc: string) => complete(doc)?.result?.options.map((o) => o.label) ?? [];
+        expect(labels("di|")).toEqual(["version", "dict", "list of dicts"]);
+        expect(labels("a: 1\n  di|")).toEqual(["dict", "list of dicts"]);
+        expect(labels("text: b|")).toEqual(["block string", "folded string"]);
+        expect(labels("a: 1\n|")).toEqual([]);
+        expect(labels("a: \"x|")).toEqual([]);
+    });
+
+    test("multiline strings indent their content under the key", () => {
+        expect(expand("server::\n  motd: b|", "block string")).toBe("server::\n  motd: \"\"\"\n    \n  \"\"\"");
+        expect(expand("note:|", "folded string")).toBe("note: ```\n  \n```");
+    });
+
+    test("entry snippets follow the enclosing block's indentation", () => {
+        expect(expand("servers::\n  - ::\n    host: \"a\"\n|\n", "list of dicts")).toBe("servers::\n  - ::\n    host: \"a\"\n    key::\n      - ::\n        name: value\n");
+        expect(expand("a::\n  b: 1\nd|", "dict")).toBe("a::\n  b: 1\nkey::\n  name: value");
+    });
+
+    test("re-indenting and inserting are one transaction", () => {
+        const { text, transactions, state } = expandWith("a::\n  b: 1\n      d|", "dict");
+        expect(text).toBe("a::\n  b: 1\n  key::\n    name: value");
+        expect(transactions).toBe(1);
+        // The first field is selected
+        expect(state.sliceDoc(state.selection.main.from, state.selection.main.to)).toBe("key");
+    });
+
+    test("project snippets are offered alongside the built-in ones", () => {
+        const service: HumlSnippet = { label: "service", template: "${name}::\n\timage: \"${image}\"\n\tport: ${port}" };
+        const { result } = complete("se|", [...humlSnippets, service]);
+        expect(result!.options.map((o) => o.label)).toContain("service");
+        expect(expand("se|", "service", [service])).toBe("name::\n  image: \"image\"\n  port: port");
+    });
+});
@@ -1,13 +1,57 @@
-import { CompletionContext, type CompletionResult } from "@codemirror/autocomplete";
+import { autocompletion, CompletionContext, type Completion, type CompletionResult, type CompletionSource } from "@codemirror/autocomplete";
 import { syntaxTree } from "@codemirror/language";
+import type { EditorState, Extension } from "@codemirror/state";
+import type { SyntaxNode } from "@lezer/common";
+import { encodeKey } from "./encoder";
+import { humlLanguage } from "./language";
+import { DICT_CONTAINERS, LIST_CONTAINERS, dictAt, entriesOf, formatPath, unwrapValue, valueChild, type HumlPath, type TextReader } from "./navigation";
+import { decodeKey } from "./scalars";
+import { humlSnippets, snippetCompletions, type HumlSnippet } from "./snippets";
+import { schemaCompletions, type JsonSchema } from "./schema";
+
+/**
+ * Options for {@link humlAutocomplete} and {@link humlCompletion}
+ */
+export interface HumlCompletionOptions {
+    /** JSON Schema providing key and enum value suggestions */
+    schema?: JsonSchema;
+    /** Additional completion sources, queried alongside the built-in one */
+    sources?: readonly CompletionSource[];
+    /** Project-specific snippets, offered alongside the built-in {@link humlSnippets} */
+    snippets?: readonly HumlSnippet[];
+}
+
+/**
+ * HUML autocompletion as a standalone extension.
+ *
+ * The sources are registered as HUML language data, so they combine with
+ * completion sources the editor already has instead of replacing them.
+ * Snippets come from a source of their own, next to key and value
+ * completion.
+ */
+export function humlCompletion(options: HumlCompletionOptions = {}): Extension {
+    const snippets = [...humlSnippets, ...(options.snippets ?? [])];
+    const sources: CompletionSource[] = [
+        (context) => humlAutocomplete(context, options),
+        (context) => snippetCompletions(context, snippets),
+        ...(options.sources ?? []),
+    ];
+    return [
+        autocompletion(),
+        sources.map((source) => humlLanguage.data.of({ autocomplete: source })),
+    ];
+}
 
 /**
  * Autocomplete provider for HUML
  * Provides context-aware completions based on the current position
  * Optionally uses schema for field suggestions
+ * Suggests keys that other dictionaries at the same path already use, and
+ * values that the same key already has elsewhere
  */
 export function humlAutocomplete(
-    context: CompletionContext
+    context: CompletionContext,
+    options: HumlCompletionOptions = {}
 ): CompletionResult | null {
     const { state, pos } = context;
     const tree = syntaxTree(state);
@@ -19,6 +63,20 @@ export function humlAutocomplete(
         return null;
     }
 
+    // Schema-driven keys and enum values take precedence over generic suggestions
+    if (options.schema) {
+        const result = schemaCompletions(context, options.schema);
+        if (result) return result;
+    }
+
+    // Keys used by sibling list items and at the same path elsewhere
+    const keys = keyCompletions(context);
+    if (keys) return keys;
+
+    // Values the same key has elsewhere, most frequent first
+    const values = valueCompletions(context);
+    if (values) return values;
+
     // Check if we're at the start of a line or after certain tokens
     const line = state.doc.lineAt(pos);
     const lineText = line.text;
@@ -248,4 +306,159 @@ export function humlAutocomplete(
     }
 
     return null;
-}
\ No newline at end of file
+}
+
+// --- Helpers ---
+
+/**
+ * Keys for the block dictionary being typed in, taken from the other
+ * dictionaries at the same path with list indexes ignored: other items of
+ * the same list first, then matching dictionaries elsewhere in the
+ * document. Keys the dictionary already has are left out, and each key is
+ * inserted with `:` or `::` the way it was first written.
+ */
+function keyCompletions(context: CompletionContext): CompletionResult | null {
+    const { state, pos } = context;
+    const line = state.doc.lineAt(pos);
+    const match = /^(\s*)([A-Za-z_][\w-]*)?$/.exec(line.text.slice(0, pos - line.from));
+    if (!match) return null;
+    const dict = dictAt(state, pos, match[1]!.length);
+    if (!dict) return null;
+
+    const read: TextReader = (from, to) => state.sliceDoc(from, to);
+    const word = match[2] ?? "";
+    const present = new Set(dict.keys);
+    const shape = pathShape(dict.path);
+    const self = JSON.stringify(dict.path);
+    const parent = JSON.stringify(dict.path.slice(0, -1));
+    const inList = typeof dict.path[dict.path.length - 1] === "number";
+    const used = new Map<string, { sibling: boolean; block: boolean; path: HumlPath }>();
+
+    walkPaths(state, (node, path) => {
+        if (!DICT_CONTAINERS.has(node.name)) return;
+        if (pathShape(path) !== shape || JSON.stringify(path) === self) return;
+        const sibling = inList && JSON.stringify(path.slice(0, -1)) === parent;
+        for (const entry of entriesOf(node, read)) {
+            const known = used.get(entry.key!);
+            if (known && (known.sibling || !sibling)) continue;
+            used.set(entry.key!, { sibling, block: entry.node.getChild("::") !== null, path: [...path] });
+        }
+    });
+
+    const options: Completion[] = [];
+    for (const [key, use] of used) {
+        if (present.has(key) && key !== word) continue;
+        const label = encodeKey(key);
+        options.push({
+            label,
+            type: "property",
+            detail: use.path.length > 0 ? `in ${formatPath(use.path)}` : undefined,
+            boost: use.sibling ? 1 : 0,
+            apply: `${label}${use.block ? "::" : ":"} `,
+        });
+    }
+    if (options.length === 0) return null;
+    return { from: pos - word.length, options, validFor: /^[\w-]*$/ };
+}
+
+const SCALAR_TYPES: Record<string, string> = {
+    String: "text",
+    Number: "constant",
+    SpecialNumber: "constant",
+    Boolean: "keyword",
+    Null: "keyword",
+};
+
+/**
+ * Values for a `key:` being typed, taken from the single-line values of the
+ * same key path elsewhere in the document, list indexes ignored (so other
+ * items of the same list count). Values are ranked by how often they occur.
+ */
+function valueCompletions(context: CompletionContext): CompletionResult | null {
+    const { state, pos } = context;
+    const line = state.doc.lineAt(pos);
+    const match = /^(\s*)([A-Za-z_][\w-]*|"(?:[^"\\]|\\.)*"):( ?)([\w"+.-]*)$/.exec(line.text.slice(0, pos - line.from));
+    if (!match) return null;
+    const dict = dictAt(state, pos, match[1]!.length);
+    if (!dict) return null;
+
+    const shape = pathShape([...dict.path, decodeKey(match[2]!)]);
+    const seen = new Map<string, { type: string; count: number }>();
+    walkPaths(state, (node, path) => {
+        if (node.name !== "Property" && node.name !== "DictPair") return;
+        // The value being typed does not count
+        if (node.from >= line.from && node.from <= line.to) return;
+        const value = unwrapValue(valueChild(node));
+        const type = SCALAR_TYPES[value.name];
+        if (!type || pathShape(path) !== shape) return;
+        const literal = state.sliceDoc(value.from, value.to);
+        const known = seen.get(literal);
+        if (known) known.count++;
+        else seen.set(literal, { type, count: 1 });
+    });
+    if (seen.size === 0) return null;
+
+    const word = match[4]!;
+    const options: Completion[] = [...seen].map(([literal, { type, count }]) => ({
+        label: literal,
+        type,
+        detail: count === 1 ? "used once" : `used ${count} times`,
+        boost: Math.min(count, 99),
+        apply: match[3] === "" ? ` ${literal}` : literal,
+    }));
+    return { from: pos - word.length, options };
+}
+
+/**
+ * Call `visit` for every container, entry and inline list item of the
+ * document with its path (as {@link pathOfNode} gives it). The path is
+ * built up during a single walk over the tree, and is only valid during
+ * the call.
+ */
+function walkPaths(state: EditorState, visit: (node: SyntaxNode, path: HumlPath) => void): void {
+    const path: (string | number)[] = [];
+    // The entries that added a segment to `path`, innermost last
+    const owners: SyntaxNode[] = [];
+    // Items seen so far in each list container around the current node
+    const counts: number[] = [];
+
+    syntaxTree(state).iterate({
+        enter(ref) {
+            const name = ref.name;
+            if (LIST_CONTAINERS.has(name)) counts.push(0);
+            if (!VISITED.has(name)) return;
+
+            const node = ref.node;
+            let segment: string | number | null = null;
+            if (name === "Property" || name === "DictPair") {
+                const keyNode = node.firstChild;
+                if (keyNode && (keyNode.name === "Key" || keyNode.name === "String")) {
+                    segment = decodeKey(state.sliceDoc(keyNode.from, keyNode.to));
+                }
+            } else if (name === "ListItem" || (name === "Scalar" && (node.parent?.name === "InlineList" || node.parent?.name === "RootInlineList"))) {
+                segment = counts[counts.length - 1]!++;
+            }
+            if (segment !== null) {
+                path.push(segment);
+                owners.push(node);
+            }
+            visit(node, path);
+        },
+        leave(ref) {
+            if (LIST_CONTAINERS.has(ref.name)) counts.pop();
+            const owner = owners[owners.length - 1];
+            if (owner && owner.from === ref.from && owner.to === ref.to && owner.name === ref.name) {
+                owners.pop();
+                path.pop();
+            }
+        },
+    });
+}
+
+// Nodes that add a path segment or that completion looks at
+const VISITED: ReadonlySet<string> = new Set(["Property", "DictPair", "ListItem", "Scalar", ...DICT_CONTAINERS]);
+
+// A path with its list indexes blanked out, so that `servers[0].tls` and `servers[3].tls` match
+function pathShape(path: HumlPath): string {
+    return JSON.stringify(path.map((segment) => typeof segment === "number" ? null : segment));
+}
@@ -0,0 +1,94 @@
+import { syntaxTree } from "@codemirror/language";
+import type { EditorState, Extension } from "@codemirror/state";
+import { EditorView, showPanel, type Panel } from "@codemirror/view";
+import { formatPath, stepsOfNode, type HumlPath, type PathStep } from "./navigation";
+
+/**
+ * The structural path at a position: the keys and list indexes of the
+ * entries enclosing it, outermost first.
+ *
+ * @param state - The editor state.
+ * @param pos - A document position, usually the cursor.
+ * @returns The path, e.g. `["server", "listeners", 2, "port"]`; empty at the top level.
+ *
+ * @example
+ * ```typescript
+ * import { pathAt } from "@nayanvr/lang-huml";
+ *
+ * pathAt(view.state, view.state.selection.main.head);
+ * // => ["server", "port"]
+ * ```
+ */
+export function pathAt(state: EditorState, pos: number): HumlPath {
+    return stepsAt(state, pos).map((step) => step.segment);
+}
+
+/**
+ * A panel above the editor showing the path at the cursor as breadcrumbs.
+ * Clicking a crumb moves the cursor to that ancestor's key or list item.
+ */
+export function humlBreadcrumbs(): Extension {
+    return [showPanel.of(createPanel), breadcrumbsTheme];
+}
+
+// --- Helpers ---
+
+function stepsAt(state: EditorState, pos: number): PathStep[] {
+    const node = syntaxTree(state).resolveInner(pos, -1);
+    return stepsOfNode(node, (from, to) => state.sliceDoc(from, to));
+}
+
+function createPanel(view: EditorView): Panel {
+    const dom = document.createElement("nav");
+    dom.className = "cm-huml-breadcrumbs";
+    dom.setAttribute("aria-label", "Path at cursor");
+
+    const render = (state: EditorState) => {
+        const steps = stepsAt(state, state.selection.main.head);
+        dom.textContent = "";
+        if (steps.length === 0) {
+            dom.appendChild(document.createElement("span")).textContent = "(root)";
+            return;
+        }
+        steps.forEach((step, i) => {
+            if (i > 0) dom.appendChild(document.createElement("span")).textContent = " › ";
+            const crumb = dom.appendChild(document.createElement("button"));
+            crumb.type = "button";
+            crumb.className = "cm-huml-breadcrumb";
+            crumb.textContent = formatPath([step.segment]);
+            crumb.title = formatPath(steps.slice(0, i + 1).map((s) => s.segment));
+            crumb.addEventListener("click", () => {
+                view.dispatch({ selection: { anchor: step.node.from }, scrollIntoView: true });
+                view.focus();
+            });
+        });
+    };
+    render(view.state);
+
+    return {
+        dom,
+        top: true,
+        update(update) {
+            if (update.selectionSet || update.docChanged || syntaxTree(update.state) !== syntaxTree(update.startState)) {
+                render(update.state);
+            }
+        },
+    };
+}
+
+const breadcrumbsTheme = EditorView.baseTheme({
+    ".cm-huml-breadcrumbs": {
+        padding: "2px 6px",
+        fontFamily: "monospace",
+    },
+    ".cm-huml-breadcrumb": {
+        font: "inherit",
+        background: "none",
+        border: "none",
+        padding: "0",
+        cursor: "pointer",
+    },
+    ".cm-huml-breadcrumb:hover": {
+        textDecoration: "underline",
+    },
+});
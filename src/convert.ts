@@ -0,0 +1,199 @@
+import { parse, type HumlValue } from "./decoder";
+import { stringify, type StringifyOptions } from "./encoder";
+import { formatPath, type HumlPath } from "./navigation";
+
+/**
+ * Error thrown when a value has no representation in the target format,
+ * or the source cannot be read
+ */
+export class HumlConversionError extends Error {
+    /** Where in the data the problem is; empty for the root or the source as a whole */
+    readonly path: HumlPath;
+
+    constructor(message: string, path: HumlPath = []) {
+        super(path.length > 0 ? `${message} (at ${formatPath(path)})` : message);
+        this.name = "HumlConversionError";
+        this.path = path;
+    }
+}
+
+/**
+ * Convert JSON text to HUML.
+ *
+ * @param json - The JSON source text.
+ * @param options - Options passed on to {@link stringify}.
+ * @returns The HUML document.
+ * @throws {HumlConversionError} If the JSON is malformed.
+ *
+ * @example
+ * ```typescript
+ * import { fromJSON } from "@nayanvr/lang-huml/convert";
+ *
+ * fromJSON('{"name": "api", "ports": [80, 443]}');
+ * // => 'name: "api"\nports:: 80, 443\n'
+ * ```
+ */
+export function fromJSON(json: string, options: StringifyOptions = {}): string {
+    let value: unknown;
+    try {
+        value = JSON.parse(json);
+    } catch (err) {
+        throw new HumlConversionError(`Invalid JSON: ${(err as Error).message}`);
+    }
+    return stringify(value, options);
+}
+
+/**
+ * Convert a HUML document to JSON text.
+ *
+ * @param text - The HUML source text.
+ * @param indent - Indentation passed to `JSON.stringify`. Defaults to 2 spaces.
+ * @returns The JSON text.
+ * @throws {HumlParseError} If the HUML document is invalid.
+ * @throws {HumlConversionError} If it contains `nan` or `inf`, which JSON cannot express.
+ */
+export function toJSON(text: string, indent: number | string = 2): string {
+    const value = parse(text);
+    walk(value, [], (item, path) => {
+        if (typeof item === "number" && !Number.isFinite(item)) {
+            throw new HumlConversionError(`${item} has no JSON representation`, path);
+        }
+    });
+    return JSON.stringify(value, null, indent);
+}
+
+/**
+ * Convert a YAML document to HUML.
+ *
+ * Anchors, aliases and merge keys have no HUML equivalent and are rejected
+ * rather than silently expanded. `.nan` and `.inf` map to `nan` and `inf`.
+ * The `yaml` package is loaded on first use.
+ *
+ * @param yaml - The YAML source text (a single document).
+ * @param options - Options passed on to {@link stringify}.
+ * @returns The HUML document.
+ * @throws {HumlConversionError} If the YAML is malformed or uses unsupported features.
+ */
+export async function fromYAML(yaml: string, options: StringifyOptions = {}): Promise<string> {
+    const { isScalar, LineCounter, parseDocument, visit } = await import("yaml");
+    const lineCounter = new LineCounter();
+    const document = parseDocument(yaml, { lineCounter, merge: false, uniqueKeys: true });
+    const error = document.errors[0];
+    if (error?.code === "MULTIPLE_DOCS") {
+        throw new HumlConversionError("YAML streams with more than one document are not supported");
+    }
+    if (error) {
+        const message = error.message.split("\n")[0]!.replace(/ at line \d+, column \d+:?$/, "");
+        throw new HumlConversionError(`Invalid YAML: ${message}${error.linePos ? ` (line ${error.linePos[0].line})` : ""}`);
+    }
+
+    const at = (offset: number | undefined) => offset === undefined ? "" : ` (line ${lineCounter.linePos(offset).line})`;
+    visit(document, {
+        Alias(_key, node) {
+            throw new HumlConversionError(`YAML aliases are not supported: *${node.source}${at(node.range?.[0])}`);
+        },
+        Node(_key, node) {
+            if (node.anchor) {
+                throw new HumlConversionError(`YAML anchors are not supported: &${node.anchor}${at(node.range?.[0])}`);
+            }
+        },
+        Pair(_key, pair) {
+            const key = pair.key as { range?: [number, number, number] } | null;
+            if (key !== null && typeof key === "object" && "items" in key) {
+                throw new HumlConversionError(`YAML collection keys are not supported${at(key.range?.[0])}`);
+            }
+            // `null: 1` and `~: 1` name a key; keep their text instead of an empty key
+            if (isScalar(key) && key.value === null) key.value = key.source ?? "";
+        },
+    });
+
+    return stringify(checkPlain(document.toJS(), "YAML"), options);
+}
+
+/**
+ * Convert a HUML document to YAML, loading the `yaml` package on first use.
+ *
+ * @param text - The HUML source text.
+ * @returns The YAML text.
+ * @throws {HumlParseError} If the HUML document is invalid.
+ */
+export async function toYAML(text: string): Promise<string> {
+    const value = parse(text);
+    const { stringify: stringifyYaml } = await import("yaml");
+    return stringifyYaml(value);
+}
+
+/**
+ * Convert a TOML document to HUML.
+ *
+ * Dates and times have no HUML equivalent and are rejected; quote them in
+ * the TOML source to keep them as strings. The `smol-toml` package is
+ * loaded on first use.
+ *
+ * @param toml - The TOML source text.
+ * @param options - Options passed on to {@link stringify}.
+ * @returns The HUML document.
+ * @throws {HumlConversionError} If the TOML is malformed or contains dates.
+ */
+export async function fromTOML(toml: string, options: StringifyOptions = {}): Promise<string> {
+    const { parse: parseToml, TomlError } = await import("smol-toml");
+    let value: unknown;
+    try {
+        value = parseToml(toml);
+    } catch (err) {
+        const message = err instanceof TomlError
+            ? `${err.message.split("\n")[0]!.replace(/^Invalid TOML document: /, "")} (line ${err.line})`
+            : (err as Error).message;
+        throw new HumlConversionError(`Invalid TOML: ${message}`);
+    }
+    return stringify(checkPlain(value, "TOML"), options);
+}
+
+/**
+ * Convert a HUML document to TOML, loading the `smol-toml` package on first use.
+ *
+ * @param text - The HUML source text.
+ * @returns The TOML text.
+ * @throws {HumlParseError} If the HUML document is invalid.
+ * @throws {HumlConversionError} If the root is not a dictionary or the
+ * document contains `null`, which TOML cannot express.
+ */
+export async function toTOML(text: string): Promise<string> {
+    const value = parse(text);
+    if (value === null || typeof value !== "object" || Array.isArray(value)) {
+        throw new HumlConversionError("TOML documents must be a dictionary at the root");
+    }
+    walk(value, [], (item, path) => {
+        if (item === null) throw new HumlConversionError("null has no TOML representation", path);
+    });
+    const { stringify: stringifyToml } = await import("smol-toml");
+    return stringifyToml(value);
+}
+
+// --- Helpers ---
+
+function walk(value: unknown, path: (string | number)[], visitor: (value: unknown, path: HumlPath) => void): void {
+    visitor(value, path);
+    if (Array.isArray(value)) {
+        value.forEach((item, index) => walk(item, [...path, index], visitor));
+    } else if (value !== null && typeof value === "object") {
+        for (const [key, item] of Object.entries(value)) walk(item, [...path, key], visitor);
+    }
+}
+
+// Make sure a parsed value only holds what HUML can express
+function checkPlain(value: unknown, format: string): HumlValue {
+    walk(value, [], (item, path) => {
+        // TOML dates are `Date`s too
+        if (item instanceof Date) {
+            throw new HumlConversionError(`${format} dates and times are not supported: ${item.toISOString()}`, path);
+        }
+        if (typeof item === "bigint") {
+            throw new HumlConversionError(`Integer ${item} is too large`, path);
+        }
+        if (item !== null && typeof item === "object" && !Array.isArray(item) && Object.getPrototypeOf(item) !== Object.prototype && Object.getPrototypeOf(item) !== null) {
+            throw new HumlConversionError(`${format} value of type ${item.constructor.name} is not supported`, path);
+        }
+    });
+    return value as HumlValue;
+}
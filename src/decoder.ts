@@ -0,0 +1,249 @@
+import { Text } from "@codemirror/state";
+import type { SyntaxNode, Tree } from "@lezer/common";
+import { explainSyntaxErrors } from "./errors";
+import { parser } from "./huml-parser-typed";
+import { lineBreak, type LineEnding } from "./newlines";
+import { decodeKey, decodeNumber, decodeSpecialNumber, decodeString } from "./scalars";
+import { validateTree } from "./validator";
+
+/**
+ * A plain JavaScript value decoded from HUML
+ */
+export type HumlValue =
+    | string
+    | number
+    | boolean
+    | null
+    | HumlValue[]
+    | { [key: string]: HumlValue };
+
+/**
+ * Error thrown when a HUML document cannot be decoded
+ * Carries both the document offsets and the 1-based line/column of the problem
+ */
+export class HumlParseError extends Error {
+    readonly from: number;
+    readonly to: number;
+    readonly line: number;
+    readonly column: number;
+
+    constructor(message: string, input: string, from: number, to: number = from) {
+        const { line, column } = lineColumn(input, from);
+        super(`${message} (line ${line}, column ${column})`);
+        this.name = "HumlParseError";
+        this.from = from;
+        this.to = to;
+        this.line = line;
+        this.column = column;
+    }
+}
+
+/**
+ * Options for {@link parse}, {@link decodeTree} and {@link decodeNode}
+ */
+export interface DecodeOptions {
+    /**
+     * Line breaks inside multiline string values: `"lf"`, `"crlf"`, or
+     * `"preserve"` to keep the ones written in the document. Defaults to `"lf"`.
+     */
+    lineEnding?: LineEnding;
+}
+
+/**
+ * Parse HUML text into plain JavaScript values.
+ *
+ * Dictionaries become objects, lists become arrays and scalars become
+ * strings, numbers, booleans or `null`. Windows (`\r\n`) line endings and a
+ * leading byte order mark are accepted.
+ *
+ * @param text - The HUML source text.
+ * @param options - Decoding options.
+ * @returns The decoded value.
+ * @throws {HumlParseError} If the document has syntax errors or duplicate keys.
+ *
+ * @example
+ * ```typescript
+ * import { parse } from "@nayanvr/lang-huml";
+ *
+ * parse('name: "demo"\nports:: 80, 443');
+ * // => { name: "demo", ports: [80, 443] }
+ * ```
+ */
+export function parse(text: string, options: DecodeOptions = {}): HumlValue {
+    return decodeTree(parser.parse(text), text, options);
+}
+
+/**
+ * Alias of {@link parse}.
+ */
+export const decode: (text: string, options?: DecodeOptions) => HumlValue = parse;
+
+/**
+ * Decode an already parsed HUML syntax tree.
+ *
+ * Useful when a tree is at hand (for example from `syntaxTree(state)`)
+ * and re-parsing the text would be wasteful.
+ *
+ * @throws {HumlParseError} If the tree has syntax errors or duplicate keys.
+ */
+export function decodeTree(tree: Tree, input: string, options: DecodeOptions = {}): HumlValue {
+    // Refuse to decode anything the parser had to recover from
+    const error = syntaxError(tree, input);
+    if (error) throw error;
+
+    const issue = validateTree(tree, input)[0];
+    if (issue) {
+        throw new HumlParseError(issue.message, input, issue.from, issue.to);
+    }
+
+    const root = tree.topNode;
+    const body = root.getChild("Properties") ?? root.getChild("RootListItems") ?? root.getChild("ExclusiveRootValue");
+    if (!body) {
+        throw new HumlParseError("Empty document", input, 0);
+    }
+    return decodeNode(body, input, options);
+}
+
+/**
+ * The error for the first mistake the parser had to recover from (`⚠`
+ * nodes), or `null` when the tree is free of syntax errors
+ */
+export function syntaxError(tree: Tree, input: string): HumlParseError | null {
+    const errors: { from: number; to: number }[] = [];
+    tree.cursor().iterate((node) => {
+        if (node.type.isError) errors.push({ from: node.from, to: node.to });
+    });
+    if (errors.length === 0) return null;
+    const [problem] = explainSyntaxErrors(tree, errors, Text.of(input.split("\n")));
+    const { from, to, message } = problem ?? { ...errors[0]!, message: "Syntax error" };
+    return new HumlParseError(message, input, from, to);
+}
+
+/**
+ * Decode a single value node from a HUML syntax tree.
+ *
+ * Accepts any node that denotes a value: root structures, `Collection`,
+ * `Block`, `ListItem`, `Property`/`DictPair` (their value), `Scalar` and the
+ * scalar tokens themselves (`String`, `Number`, ...).
+ */
+export function decodeNode(node: SyntaxNode, input: string, options: DecodeOptions = {}): HumlValue {
+    switch (node.name) {
+        case "Properties":
+        case "DictBlockContent":
+        case "InlineDict":
+        case "RootInlineDict":
+            return decodeDict(node, input, options);
+
+        case "RootListItems":
+        case "ListBlockContent":
+        case "InlineList":
+        case "RootInlineList":
+            return decodeList(node, input, options);
+
+        case "ExclusiveRootValue":
+        case "RootScalar":
+        case "RootListItem":
+        case "Scalar":
+        case "Collection":
+        case "Block":
+            return decodeNode(valueChild(node, input), input, options);
+
+        case "Property":
+        case "DictPair":
+        case "ListItem":
+            return decodeNode(valueChild(node, input), input, options);
+
+        case "EmptyList":
+            return [];
+        case "EmptyDict":
+            return {};
+
+        case "String":
+            return decodeString(input.slice(node.from, node.to));
+        case "BlockString":
+        case "FoldedString":
+            return decodeMultilineString(input.slice(node.from, node.to), node.name === "FoldedString", options.lineEnding);
+        case "Number":
+            return decodeNumber(input.slice(node.from, node.to));
+        case "SpecialNumber":
+            return decodeSpecialNumber(input.slice(node.from, node.to));
+        case "Boolean":
+            return input.slice(node.from, node.to) === "true";
+        case "Null":
+            return null;
+    }
+
+    throw new HumlParseError(`Unexpected ${node.name}`, input, node.from, node.to);
+}
+
+// --- Helpers ---
+
+// The node holding the value of a wrapper node: the last child that is not
+// punctuation, whitespace or a comment
+function valueChild(node: SyntaxNode, input: string): SyntaxNode {
+    let child = node.lastChild;
+    while (child && SKIP.has(child.name)) child = child.prevSibling;
+    if (!child) throw new HumlParseError(`Missing value in ${node.name}`, input, node.from, node.to);
+    return child;
+}
+
+const SKIP = new Set([
+    "Filler", "Separator", "Space", "Comment", "Newline", "Indent", "Dedent",
+    ":", "::", "ListMark", "Key",
+]);
+
+function decodeDict(node: SyntaxNode, input: string, options: DecodeOptions): { [key: string]: HumlValue } {
+    const result: { [key: string]: HumlValue } = {};
+    for (let child = node.firstChild; child; child = child.nextSibling) {
+        if (child.name !== "Property" && child.name !== "DictPair") continue;
+        const keyNode = child.firstChild!;
+        // Define rather than assign so keys like "__proto__" stay plain data
+        Object.defineProperty(result, decodeKey(input.slice(keyNode.from, keyNode.to)), {
+            value: decodeNode(child, input, options),
+            enumerable: true,
+            writable: true,
+            configurable: true,
+        });
+    }
+    return result;
+}
+
+function decodeList(node: SyntaxNode, input: string, options: DecodeOptions): HumlValue[] {
+    const result: HumlValue[] = [];
+    for (let child = node.firstChild; child; child = child.nextSibling) {
+        if (child.name === "Scalar" || child.name === "ListItem" || child.name === "RootListItem") {
+            result.push(decodeNode(child, input, options));
+        }
+    }
+    return result;
+}
+
+function decodeMultilineString(literal: string, folded: boolean, lineEnding: LineEnding = "lf"): string {
+    const lines = literal.split(/\r?\n/);
+    const breaks = literal.match(/\r?\n/g) ?? [];
+    // The closing delimiter sits at the indentation of the owning key,
+    // content lines are indented one step (2 spaces) further
+    const closing = lines[lines.length - 1]!;
+    const strip = closing.length - closing.trimStart().length + 2;
+    const content = lines.slice(1, -1).map((line) => {
+        let i = 0;
+        while (i < strip && (line[i] === " " || line[i] === "\t")) i++;
+        return line.slice(i);
+    });
+    if (folded) return content.join(" ");
+    if (lineEnding !== "preserve") return content.join(lineBreak(lineEnding));
+    // Content line `i` is preceded by line break `i`; break 0 follows the opening delimiter
+    return content.map((line, i) => i === 0 ? line : breaks[i] + line).join("");
+}
+
+function lineColumn(input: string, pos: number): { line: number; column: number } {
+    let line = 1;
+    let lineStart = 0;
+    for (let i = 0; i < pos && i < input.length; i++) {
+        if (input.charCodeAt(i) === 10) {
+            line++;
+            lineStart = i + 1;
+        }
+    }
+    return { line, column: pos - lineStart + 1 };
+}
@@ -1,123 +1,403 @@
 import { syntaxTree } from "@codemirror/language";
-import type { Diagnostic } from "@codemirror/lint";
-import { EditorState } from "@codemirror/state";
+import { linter, type Diagnostic } from "@codemirror/lint";
+import { ChangeSet, EditorState, Facet, StateField, type Extension, type StateCommand, type Text } from "@codemirror/state";
+import type { Tree } from "@lezer/common";
+import { encodeKey } from "./encoder";
+import { explainSyntaxErrors } from "./errors";
+import { LineCache, treeFacts } from "./incremental";
+import { entriesOf } from "./navigation";
+import { detectLineEnding } from "./newlines";
+import { ruleSeverity, Suppressions, type RuleSetting } from "./rules";
+import { validateSchema, type JsonSchema } from "./schema";
+import type { ValidationIssue } from "./validator";
+
+/**
+ * Options for {@link humlDiagnostics} and {@link humlLinter}
+ */
+export interface HumlLintOptions {
+    /** JSON Schema to validate the document against */
+    schema?: JsonSchema;
+    /** Milliseconds to wait after a change before linting (CodeMirror's default is 750) */
+    delay?: number;
+    /**
+     * Per-rule settings keyed by diagnostic code, e.g.
+     * `{ "huml/duplicate-key": "warn", "huml/trailing-whitespace": "off" }`.
+     * See `humlLintRules` for the codes and their defaults.
+     */
+    rules?: Record<string, RuleSetting>;
+    /**
+     * Severity overrides keyed by diagnostic code. `rules` takes precedence.
+     * @deprecated Use `rules`.
+     */
+    severity?: Record<string, Diagnostic["severity"]>;
+}
+
+// The options the linter was configured with, for commands like `fixAllHuml`
+const lintOptions = Facet.define<HumlLintOptions, HumlLintOptions>({
+    combine: (values) => values[0] ?? {},
+});
+
+/**
+ * The HUML linter as a standalone extension.
+ *
+ * Included by `huml()` unless linting is disabled; use it directly when
+ * composing the language support by hand.
+ */
+export function humlLinter(options: HumlLintOptions = {}): Extension {
+    return [
+        lintOptions.of(options),
+        lineCache,
+        linter((view) => humlDiagnostics(view, options), { delay: options.delay }),
+    ];
+}
 
 /**
  * Extract parse errors from the Lezer syntax tree and convert them to CodeMirror diagnostics
  * Optionally validates against schema if provided
  */
-export function humlLinter(
-    view: { state: EditorState }
+export function humlDiagnostics(
+    view: { state: EditorState },
+    options: HumlLintOptions = {}
 ): Diagnostic[] {
     const diagnostics: Diagnostic[] = [];
-    const tree = syntaxTree(view.state);
-    const doc = view.state.doc;
-
-    // Optimized spacing violation check: only scan around colons instead of entire document
-    // Use regex to find potential violations more efficiently
-    const text = doc.toString();
-    const length = text.length;
-
-    // Find all colons and check spacing around them
-    let i = 0;
-    while (i < length - 1) {
-        const char = text[i];
-
-        // Check for :: without space after
-        if (char === ":" && text[i + 1] === ":" && i + 2 < length) {
-            const afterDoubleColon = text[i + 2];
-            // :: must be followed by space, newline, or EOF, unless it's a comment
-            if (afterDoubleColon && afterDoubleColon !== " " && afterDoubleColon !== "\n" && afterDoubleColon !== "\r" && afterDoubleColon !== "#") {
-                // Check if it's a valid token like [] or {} (spec requires space)
-                if (afterDoubleColon === "[" || afterDoubleColon === "{") {
-                    diagnostics.push({
-                        from: i + 2,
-                        to: i + 2,
-                        severity: "error",
-                        message: "Expected space after ::",
-                    });
-                }
-            }
-            i += 2; // Skip both colons
-            continue;
-        }
+    const state = view.state;
+    const tree = syntaxTree(state);
+    const doc = state.doc;
+    const facts = treeFacts(tree, doc);
+
+    // The full text is only needed by schema validation and key renames
+    let text: string | undefined;
+    const fullText = () => text ??= doc.toString();
+
+    // Whitespace, string and key problems are found line by line;
+    // in an editor only the lines changed since the last run are rechecked
+    const cache = state.field(lineCache, false) ?? new LineCache<LineIssue>();
+    for (const issue of cache.refresh(doc, facts.multiline, lineIssues)) {
+        const { fix, ...diagnostic } = issue;
+        diagnostics.push(fix ? fixable(diagnostic, fix) : diagnostic);
+    }
 
-        // Check for : without space after (but not ::)
-        if (char === ":" && text[i + 1] !== ":") {
-            const nextChar = text[i + 1];
-            if (nextChar && nextChar !== " " && nextChar !== "\n" && nextChar !== "\r" && nextChar !== "#") {
-                // Fast check for valid value start characters
-                const code = nextChar.charCodeAt(0);
-                const validValueStart =
-                    (code >= 48 && code <= 57) || // 0-9
-                    (code >= 65 && code <= 90) || // A-Z
-                    (code >= 97 && code <= 122) || // a-z
-                    nextChar === '"' || nextChar === '`' || nextChar === '[' || nextChar === '{' ||
-                    nextChar === '+' || nextChar === '-';
-
-                if (validValueStart) {
-                    diagnostics.push({
-                        from: i + 1,
-                        to: i + 1,
-                        severity: "error",
-                        message: "Expected space after :",
-                    });
-                }
-            }
+    // Off by default: editors normally convert line breaks to "\n", so line
+    // endings only show up when the state keeps them (`EditorState.lineSeparator`)
+    const rules = { ...options.severity, ...options.rules };
+    if (ruleSeverity("huml/mixed-line-endings", rules)) {
+        for (const issue of mixedLineEndings(doc)) {
+            const { fix, ...diagnostic } = issue;
+            diagnostics.push(fixable(diagnostic, fix!));
         }
+    }
 
-        i++;
+    // Parse errors, explained from the nodes around them. A missing space or
+    // trailing whitespace also leaves error nodes behind; those are left to
+    // the more specific diagnostics on the same line.
+    const explained = [...diagnostics, ...facts.issues.filter((issue) => SPACING_FIXES[issue.code])];
+    for (const problem of explainSyntaxErrors(tree, facts.errors, doc)) {
+        const line = doc.lineAt(problem.from).number;
+        const { extent } = problem;
+        if (explained.some((d) => d.from <= extent.to && d.to >= extent.from && doc.lineAt(d.from).number === line)) continue;
+        diagnostics.push({
+            from: problem.from,
+            to: problem.to,
+            severity: "error",
+            source: "huml/syntax",
+            message: problem.message,
+        });
     }
 
-    // Iterate through the parse tree to find error nodes (⚠)
-    tree.cursor().iterate((node) => {
-        if (node.name === "⚠") {
-            // Get the text at the error location for context
-            const errorText = doc.sliceString(node.from, node.to);
-            const line = doc.lineAt(node.from);
-
-            // Generate a helpful error message based on context
-            let message = "Parse error";
-
-            // Try to provide more specific error messages
-            if (errorText.trim().length === 0) {
-                // Empty error node - likely a missing token
-                // Optimized: only read context when needed, limit slice operations
-                const beforeStart = Math.max(0, node.from - 20);
-                const before = doc.sliceString(beforeStart, node.from);
-                const afterEnd = Math.min(doc.length, node.to + 20);
-                const after = doc.sliceString(node.to, afterEnd);
-                const afterTrimmed = after.trim();
-
-                // Use indexOf for faster checks instead of includes/startsWith
-                const doubleColonIdx = before.lastIndexOf("::");
-                const singleColonIdx = before.lastIndexOf(":");
-                const dashIdx = before.lastIndexOf("-");
-
-                if (doubleColonIdx >= 0 && !afterTrimmed.startsWith("-") && !afterTrimmed.startsWith("[")) {
-                    message = "Expected list item (-) or collection after ::";
-                } else if (singleColonIdx >= 0 && singleColonIdx > doubleColonIdx && afterTrimmed.length === 0) {
-                    message = "Expected value after colon";
-                } else if (dashIdx >= 0 && afterTrimmed.length === 0) {
-                    message = "Expected value after list mark";
-                } else {
-                    message = "Unexpected syntax";
-                }
-            } else {
-                // Limit error text length for performance
-                const displayText = errorText.length > 50 ? errorText.slice(0, 50) + "..." : errorText;
-                message = `Unexpected token: ${displayText}`;
-            }
-
-            diagnostics.push({
-                from: node.from,
-                to: node.to,
-                severity: "error",
-                message: message,
-            });
+    // Duplicate keys and colon spacing come from the same per-node cache as the parse errors
+    const issues: ValidationIssue[] = [...facts.issues];
+    if (options.schema) {
+        issues.push(...validateSchema(tree, fullText(), options.schema));
+    }
+
+    for (const issue of issues) {
+        const related = issue.related;
+        const diagnostic: Diagnostic = {
+            from: issue.from,
+            to: issue.to,
+            severity: "error",
+            source: issue.code,
+            message: related
+                ? `${issue.message} (first defined on line ${doc.lineAt(related.from).number})`
+                : issue.message,
+            actions: related
+                ? [{
+                    name: "Go to first definition",
+                    apply: (view, _from, _to) => {
+                        view.dispatch({
+                            selection: { anchor: related.from, head: related.to },
+                            scrollIntoView: true,
+                        });
+                    },
+                }]
+                : undefined,
+        };
+        const spacingFix = SPACING_FIXES[issue.code];
+        if (spacingFix) fixable(diagnostic, spacingFix);
+        if (issue.reindent) fixable(diagnostic, reindentFix(issue.reindent));
+        if (issue.code === "huml/duplicate-key") {
+            const renamed = unusedKey(tree, fullText(), issue.from);
+            if (renamed) fixable(diagnostic, { name: `Rename to ${renamed}`, safe: false, replace: () => renamed });
         }
+        diagnostics.push(diagnostic);
+    }
+
+    // Apply rule settings and `# huml-disable-next-line` comments
+    const suppressions = new Suppressions();
+    for (const comment of facts.directives) {
+        suppressions.add(doc.sliceString(comment.from, comment.to), doc.lineAt(comment.from).number);
+    }
+    return diagnostics.filter((diagnostic) => {
+        const source = diagnostic.source ?? "";
+        const severity = ruleSeverity(source, rules, diagnostic.severity);
+        if (!severity || suppressions.has(doc.lineAt(diagnostic.from).number, source)) return false;
+        diagnostic.severity = severity;
+        return true;
     });
+}
+
+/**
+ * Apply every safe quick fix in the document at once: missing spaces after
+ * `:`/`::`, trailing whitespace, tab indentation, misindented blocks,
+ * unquoted reserved-word keys and unterminated strings. Fixes that change
+ * meaning, like renaming a duplicate key, are left to the user, as are rules
+ * turned off or suppressed in the linter configuration.
+ */
+export const fixAllHuml: StateCommand = ({ state, dispatch }) => {
+    const changes = safeFixChanges(state);
+    if (changes.empty) return false;
+
+    dispatch(state.update({ changes, userEvent: "input.fix" }));
+    return true;
+};
+
+/**
+ * The changes {@link fixAllHuml} makes to `state`, for commands that apply
+ * the safe fixes along with edits of their own
+ */
+export function safeFixChanges(state: EditorState): ChangeSet {
+    let changes = ChangeSet.empty(state.doc.length);
+    let current = state;
+    // Fixes that overlap an earlier one, like a nested block that also needs
+    // re-indenting, are applied in another round on the fixed document
+    for (let round = 0; round < MAX_FIX_ROUNDS; round++) {
+        const { fixed, overlapped } = safeFixes(current);
+        if (fixed.empty) break;
+        changes = changes.compose(fixed);
+        current = current.update({ changes: fixed }).state;
+        if (!overlapped) break;
+    }
+    return changes;
+}
+
+const MAX_FIX_ROUNDS = 5;
 
-    return diagnostics;
+function safeFixes(state: EditorState): { fixed: ChangeSet; overlapped: boolean } {
+    const candidates = humlDiagnostics({ state }, state.facet(lintOptions))
+        .filter((diagnostic) => fixes.get(diagnostic)?.safe)
+        .sort((a, b) => a.from - b.from || a.to - b.to);
+
+    const changes: { from: number; to: number; insert: string }[] = [];
+    let end = -1;
+    let overlapped = false;
+    for (const diagnostic of candidates) {
+        // Overlapping fixes would fight over the same text; the first one wins
+        if (diagnostic.from < end || diagnostic.from === changes[changes.length - 1]?.from) {
+            overlapped = true;
+            continue;
+        }
+        const fix = fixes.get(diagnostic)!;
+        const { from, to } = fix.span ?? diagnostic;
+        changes.push({ from, to, insert: fix.replace(state.sliceDoc(from, to)) });
+        end = to;
+    }
+    return { fixed: state.changes(changes), overlapped };
 }
 
+// --- Quick fixes ---
+
+// A fix replaces the text of its diagnostic's range with `replace(text)`,
+// so it keeps working after the diagnostic has been mapped through edits
+interface Fix {
+    name: string;
+    /** Safe fixes only repair syntax and are applied by `fixAllHuml` */
+    safe: boolean;
+    replace: (text: string) => string;
+    /** Replace this range instead; it starts where the diagnostic does */
+    span?: { from: number; to: number };
+}
+
+const fixes = new WeakMap<Diagnostic, Fix>();
+
+const INSERT_SPACE: Fix = { name: "Insert space", safe: true, replace: () => " " };
+
+const SPACING_FIXES: Record<string, Fix | undefined> = {
+    "huml/space-after-colon": INSERT_SPACE,
+    "huml/space-after-double-colon": INSERT_SPACE,
+};
+
+// Shift the lines of `reindent` so that the first one is indented by `width`.
+// Lines dedented below the first one are misaligned; they move to `width`.
+function reindentFix(reindent: { from: number; to: number; width: number }): Fix {
+    return {
+        name: `Indent by ${reindent.width} spaces`,
+        safe: true,
+        span: reindent,
+        replace: (text) => {
+            const first = /^ */.exec(text)![0].length;
+            return text.split("\n").map((line) => {
+                if (!line.trim()) return line;
+                const indent = /^ */.exec(line)![0].length;
+                const width = indent < first ? reindent.width : indent - first + reindent.width;
+                return " ".repeat(width) + line.slice(indent);
+            }).join("\n");
+        },
+    };
+}
+
+function fixable(diagnostic: Diagnostic, fix: Fix): Diagnostic {
+    fixes.set(diagnostic, fix);
+    const extra = fix.span ? fix.span.to - diagnostic.to : 0;
+    diagnostic.actions = [...(diagnostic.actions ?? []), {
+        name: fix.name,
+        apply: (view, from, to) => {
+            to += extra;
+            view.dispatch({
+                changes: { from, to, insert: fix.replace(view.state.sliceDoc(from, to)) },
+                userEvent: "input.fix",
+            });
+        },
+    }];
+    return diagnostic;
+}
+
+// --- Line checks ---
+
+// A line problem, positioned relative to the start of its line
+interface LineIssue extends Diagnostic {
+    fix?: Fix;
+}
+
+// Line check results survive edits; only changed lines are checked again
+const lineCache = StateField.define<LineCache<LineIssue>>({
+    create: () => new LineCache(),
+    update: (cache, tr) => tr.docChanged ? cache.map(tr.changes) : cache,
+});
+
+const RESERVED_KEY = /(^\s*(?:- :: )?|, |:: )(true|false|null|nan|inf)(?=::?( |$))/g;
+
+function lineIssues(line: string): LineIssue[] {
+    const issues: LineIssue[] = [];
+    // A kept "\r\n" line break leaves its "\r" at the end of the line
+    const text = line.endsWith("\r") ? line.slice(0, -1) : line;
+    const indent = /^[ \t]*/.exec(text)![0];
+    if (indent.includes("\t")) {
+        issues.push({
+            from: 0,
+            to: indent.length,
+            severity: "error",
+            source: "huml/tab-indent",
+            message: "Indentation must use spaces, not tabs",
+            fix: { name: "Convert tabs to spaces", safe: true, replace: (found) => found.replace(/\t/g, "  ") },
+        });
+    }
+
+    // A bare list mark needs its space before a nested block
+    const trailing = /[ \t]+$/.exec(text);
+    if (trailing && text.trim() !== "-") {
+        issues.push({
+            from: trailing.index,
+            to: text.length,
+            severity: "warning",
+            source: "huml/trailing-whitespace",
+            message: "Trailing whitespace",
+            fix: { name: "Remove trailing whitespace", safe: true, replace: () => "" },
+        });
+    }
+
+    const { strings, comment } = scanLine(text);
+    const unclosed = strings.find((string) => !string.closed);
+    if (unclosed) {
+        issues.push({
+            from: unclosed.from,
+            to: text.trimEnd().length,
+            severity: "error",
+            source: "huml/unterminated-string",
+            message: "Unterminated string",
+            fix: { name: "Close string", safe: true, replace: (found) => found + "\"" },
+        });
+    }
+
+    const code = text.slice(0, comment);
+    for (const match of code.matchAll(RESERVED_KEY)) {
+        const from = match.index + match[1]!.length;
+        if (strings.some((string) => from > string.from && from < string.to)) continue;
+        const word = match[2]!;
+        issues.push({
+            from,
+            to: from + word.length,
+            severity: "error",
+            source: "huml/reserved-key",
+            message: `"${word}" is a reserved word and must be quoted to be used as a key`,
+            fix: { name: "Quote key", safe: true, replace: (found) => `"${found}"` },
+        });
+    }
+    return issues;
+}
+
+// Lines whose line break differs from the one most lines use
+function mixedLineEndings(doc: Text): LineIssue[] {
+    const issues: LineIssue[] = [];
+    // Joined with "\n", the text keeps the "\r" of every "\r\n" line break
+    const majority = detectLineEnding(doc.sliceString(0));
+    for (let n = 1; n < doc.lines; n++) {
+        const line = doc.line(n);
+        const crlf = line.text.endsWith("\r");
+        if (crlf === (majority === "crlf")) continue;
+        issues.push({
+            from: crlf ? line.to - 1 : line.to,
+            to: line.to,
+            severity: "warning",
+            source: "huml/mixed-line-endings",
+            message: `Line ends with ${crlf ? "CRLF" : "LF"} while most lines end with ${crlf ? "LF" : "CRLF"}`,
+            fix: { name: `Use ${crlf ? "LF" : "CRLF"}`, safe: true, replace: () => crlf ? "" : "\r" },
+        });
+    }
+    return issues;
+}
+
+// Find the single-line strings and the comment start of a line.
+// Stops at a multiline string opener, whose content continues on later lines.
+function scanLine(text: string): { strings: { from: number; to: number; closed: boolean }[]; comment: number } {
+    const strings: { from: number; to: number; closed: boolean }[] = [];
+    for (let i = 0; i < text.length; i++) {
+        const ch = text[i];
+        if (ch === "#") return { strings, comment: i };
+        if (ch !== "\"") continue;
+        if (text.startsWith("\"\"\"", i)) break;
+
+        let end = i + 1;
+        while (end < text.length && text[end] !== "\"") end += text[end] === "\\" ? 2 : 1;
+        const closed = end < text.length;
+        strings.push({ from: i, to: closed ? end + 1 : text.length, closed });
+        i = end;
+    }
+    return { strings, comment: text.length };
+}
+
+// A key based on the duplicate at `pos` that is not used yet in its dictionary
+function unusedKey(tree: Tree, text: string, pos: number): string | null {
+    let node = tree.resolveInner(pos, 1);
+    while (node.parent && node.name !== "Property" && node.name !== "DictPair") node = node.parent;
+    const container = node.parent;
+    if (!container || (node.name !== "Property" && node.name !== "DictPair")) return null;
+
+    const entries = entriesOf(container, (from, to) => text.slice(from, to));
+    const key = entries.find((entry) => entry.node.from === node.from)?.key;
+    if (key === undefined) return null;
+
+    const keys = new Set(entries.map((entry) => entry.key));
+    let n = 2;
+    while (keys.has(`${key}_${n}`)) n++;
+    return encodeKey(`${key}_${n}`);
+}
@@ -0,0 +1,387 @@
+import type { SyntaxNode, Tree } from "@lezer/common";
+import { decodeNode, decodeTree, type HumlValue } from "./decoder";
+import { encodeKey, encodeListItem, encodePropertyValue, encodeScalar, stringify, type StringifyOptions } from "./encoder";
+import { parser } from "./huml-parser-typed";
+import { detectLineEnding, lineBreak } from "./newlines";
+import {
+    BLOCK_CONTAINERS, DICT_CONTAINERS, LIST_CONTAINERS,
+    contentEnd, entriesOf, formatPath, rootValue,
+    type Entry, type HumlPath,
+} from "./navigation";
+
+export type { HumlPath } from "./navigation";
+
+/**
+ * A text replacement, compatible with CodeMirror's `ChangeSpec`
+ */
+export interface TextEdit {
+    from: number;
+    to: number;
+    insert: string;
+}
+
+interface Step {
+    container: SyntaxNode;
+    entry?: Entry;
+}
+
+/**
+ * A HUML document that can be queried and edited without disturbing its
+ * layout.
+ *
+ * Every edit touches only the text of the value being changed, so comments,
+ * blank lines and formatting elsewhere are kept, and new lines end with the
+ * line break most lines of the document already use. Edit methods update the
+ * document and return the text edits they made, which can be dispatched to
+ * a CodeMirror view as `changes`.
+ *
+ * @example
+ * ```typescript
+ * import { HumlDocument } from "@nayanvr/lang-huml";
+ *
+ * const doc = new HumlDocument(view.state.doc.toString(), syntaxTree(view.state));
+ * view.dispatch({ changes: doc.set(["server", "port"], 8080) });
+ * ```
+ */
+export class HumlDocument {
+    private source: string;
+    private syntax: Tree;
+
+    /**
+     * @param text - The HUML source text.
+     * @param tree - An existing syntax tree for `text`, to avoid re-parsing.
+     * @param options - Formatting options for newly written values.
+     */
+    constructor(text: string, tree?: Tree, private readonly options: StringifyOptions = {}) {
+        this.source = text;
+        this.syntax = tree ?? parser.parse(text);
+    }
+
+    /** The current document text */
+    get text(): string {
+        return this.source;
+    }
+
+    /** The syntax tree of the current document text */
+    get tree(): Tree {
+        return this.syntax;
+    }
+
+    toString(): string {
+        return this.source;
+    }
+
+    /**
+     * Decode the whole document.
+     *
+     * @throws {HumlParseError} If the document has syntax errors or duplicate keys.
+     */
+    toValue(): HumlValue {
+        return decodeTree(this.syntax, this.source);
+    }
+
+    /**
+     * Decode the value at `path`, or return `undefined` if there is none.
+     */
+    get(path: HumlPath): HumlValue | undefined {
+        const node = this.find(path);
+        return node ? decodeNode(node, this.source) : undefined;
+    }
+
+    /**
+     * Check whether a value exists at `path`.
+     */
+    has(path: HumlPath): boolean {
+        return this.find(path) !== null;
+    }
+
+    /**
+     * Set the value at `path`, creating missing dictionary keys along the way.
+     * A list index equal to the list length appends.
+     *
+     * @returns The edits applied to the previous text.
+     * @throws {TypeError} If the path runs into a scalar or a key/index does not match the container.
+     * @throws {RangeError} If a list index is out of bounds.
+     */
+    set(path: HumlPath, value: unknown): TextEdit[] {
+        const root = this.root();
+        if (path.length === 0 || !root) {
+            if (path.length > 0) throw new TypeError("Cannot set a path in an empty document");
+            return this.apply(this.replaceRoot(value));
+        }
+
+        const steps = this.resolve(path);
+        const last = steps[steps.length - 1]!;
+
+        if (steps.length === path.length && last.entry) {
+            return this.apply(this.replaceEntry(last.container, last.entry, value));
+        }
+
+        // The path is missing from the last resolved container on
+        const depth = steps.length - 1;
+        const container = last.container;
+        const segment = path[depth]!;
+        const created = build(path.slice(depth + 1), value);
+
+        if (LIST_CONTAINERS.has(container.name)) {
+            if (typeof segment !== "number") throw new TypeError(`Expected a list index at ${describePath(path.slice(0, depth + 1))}`);
+            const length = this.entries(container).length;
+            if (segment !== length) throw new RangeError(`List index ${segment} out of bounds at ${describePath(path.slice(0, depth + 1))}`);
+            return this.apply(this.insertItem(container, length, created));
+        }
+        if (DICT_CONTAINERS.has(container.name)) {
+            if (typeof segment !== "string") throw new TypeError(`Expected a key at ${describePath(path.slice(0, depth + 1))}`);
+            return this.apply(this.addProperty(container, segment, created));
+        }
+        throw new TypeError(`Cannot set ${describePath(path)}: ${describePath(path.slice(0, depth))} is not a collection`);
+    }
+
+    /**
+     * Remove the value at `path`. Does nothing if there is none.
+     *
+     * @returns The edits applied to the previous text.
+     */
+    delete(path: HumlPath): TextEdit[] {
+        if (path.length === 0) return [];
+        const steps = this.resolve(path);
+        const last = steps[steps.length - 1]!;
+        if (steps.length !== path.length || !last.entry) return [];
+
+        const { container, entry } = last;
+        const entries = this.entries(container);
+
+        if (!BLOCK_CONTAINERS.has(container.name)) {
+            const value = decodeNode(container, this.source);
+            const index = entries.findIndex((e) => e.node.from === entry.node.from);
+            return this.apply(this.rewrite(container, removeEntry(value, index, entry.key)));
+        }
+
+        if (entries.length === 1) {
+            const empty = DICT_CONTAINERS.has(container.name) ? {} : [];
+            // Root structures become `{}` or `[]` in place
+            if (container.name === "Properties" || container.name === "RootListItems") {
+                const start = this.entryStart(entry.node);
+                return this.apply({ from: start, to: contentEnd(entry.node), insert: stringify(empty).trimEnd() });
+            }
+            return this.apply(this.rewrite(container, empty));
+        }
+
+        return this.apply(this.removeLines(entry.node));
+    }
+
+    /**
+     * Insert a value into the list at `path` before `index`.
+     * An index equal to the list length appends.
+     *
+     * @returns The edits applied to the previous text.
+     * @throws {TypeError} If there is no list at `path`.
+     * @throws {RangeError} If `index` is out of bounds.
+     */
+    insert(path: HumlPath, index: number, value: unknown): TextEdit[] {
+        const list = this.find(path);
+        if (!list || !LIST_CONTAINERS.has(list.name)) throw new TypeError(`No list at ${describePath(path)}`);
+        const length = this.entries(list).length;
+        if (index < 0 || index > length || !Number.isInteger(index)) {
+            throw new RangeError(`List index ${index} out of bounds at ${describePath(path)}`);
+        }
+        return this.apply(this.insertItem(list, index, value));
+    }
+
+    // --- Edits ---
+
+    private apply(edit: TextEdit): TextEdit[] {
+        const newline = lineBreak(detectLineEnding(this.source));
+        if (newline !== "\n") edit = { ...edit, insert: edit.insert.replace(/\n/g, newline) };
+        this.source = this.source.slice(0, edit.from) + edit.insert + this.source.slice(edit.to);
+        this.syntax = parser.parse(this.source);
+        return [edit];
+    }
+
+    private replaceRoot(value: unknown): TextEdit {
+        const root = this.root();
+        const scalar = encodeScalar(value);
+        if (root && scalar !== null && !root.firstChild) {
+            return { from: root.from, to: root.to, insert: scalar };
+        }
+        const directive = this.syntax.topNode.getChild("VersionDirective");
+        return { from: directive ? directive.to : 0, to: this.source.length, insert: stringify(value, this.options) };
+    }
+
+    private replaceEntry(container: SyntaxNode, entry: Entry, value: unknown): TextEdit {
+        const scalar = encodeScalar(value);
+        // Scalar to scalar keeps everything around the value
+        if (scalar !== null && !entry.value.firstChild && !LIST_CONTAINERS.has(entry.value.name) && !DICT_CONTAINERS.has(entry.value.name)) {
+            return { from: entry.value.from, to: entry.value.to, insert: scalar };
+        }
+        if (entry.node.name === "Property" || entry.node.name === "ListItem") {
+            return this.replaceTail(entry.node, value);
+        }
+        // Inside an inline collection: rewrite the collection
+        const current = decodeNode(container, this.source);
+        const index = this.entries(container).findIndex((e) => e.node.from === entry.node.from);
+        return this.rewrite(container, replaceEntryValue(current, index, entry.key, value));
+    }
+
+    // Replace everything after the key of a Property, or the whole ListItem
+    private replaceTail(node: SyntaxNode, value: unknown): TextEdit {
+        const indent = this.indentAt(node.from);
+        if (node.name === "ListItem") {
+            return { from: node.from, to: contentEnd(node), insert: encodeListItem(value, indent, this.options) };
+        }
+
+        const mark = node.getChild("::") ?? node.getChild(":")!;
+        const tail = encodePropertyValue(value, indent, this.options);
+        const comment = node.getChild("Comment");
+        const collection = node.getChild("Collection");
+        // Keep a comment after `key::` when the new value is still a block
+        if (comment && collection && tail.startsWith("::\n")) {
+            return { from: collection.from, to: contentEnd(node), insert: tail.slice(2) };
+        }
+        return { from: mark.from, to: contentEnd(node), insert: tail };
+    }
+
+    // Replace a whole inline (or emptied) collection by re-encoding its owner
+    private rewrite(container: SyntaxNode, value: unknown): TextEdit {
+        let owner = container.parent;
+        while (owner && (owner.name === "Collection" || owner.name === "Block")) owner = owner.parent;
+        if (owner && (owner.name === "Property" || owner.name === "ListItem")) {
+            return this.replaceTail(owner, value);
+        }
+        return { from: container.from, to: container.to, insert: stringify(value, this.options).trimEnd() };
+    }
+
+    private addProperty(container: SyntaxNode, key: string, value: unknown): TextEdit {
+        const entries = this.entries(container);
+        if (container.name === "Properties" || container.name === "DictBlockContent") {
+            const last = entries[entries.length - 1]!;
+            const indent = this.indentAt(entries[0]!.node.from);
+            const pos = this.lineEnd(contentEnd(last.node));
+            const encodedKey = encodeKey(key);
+            return { from: pos, to: pos, insert: `\n${indent}${encodedKey}${encodePropertyValue(value, indent, this.options)}` };
+        }
+        const current = decodeNode(container, this.source) as { [key: string]: HumlValue };
+        return this.rewrite(container, { ...current, [key]: value });
+    }
+
+    private insertItem(list: SyntaxNode, index: number, value: unknown): TextEdit {
+        const items = this.entries(list);
+        if (list.name === "RootListItems" || list.name === "ListBlockContent") {
+            const indent = this.indentAt(items[0]!.node.from);
+            const item = indent + encodeListItem(value, indent, this.options);
+            if (index < items.length) {
+                const pos = this.entryStart(items[index]!.node);
+                return { from: pos, to: pos, insert: item + "\n" };
+            }
+            const pos = this.lineEnd(contentEnd(items[items.length - 1]!.node));
+            return { from: pos, to: pos, insert: "\n" + item };
+        }
+        const current = decodeNode(list, this.source) as HumlValue[];
+        return this.rewrite(list, [...current.slice(0, index), value, ...current.slice(index)]);
+    }
+
+    // Remove the lines of an entry together with the comment lines directly above it
+    private removeLines(node: SyntaxNode): TextEdit {
+        const from = this.entryStart(node);
+        const end = this.lineEnd(contentEnd(node));
+        const next = this.source.indexOf("\n", end);
+        if (next >= 0) return { from, to: next + 1, insert: "" };
+        const previous = this.source[from - 2] === "\r" ? from - 2 : from - 1;
+        return { from: Math.max(0, previous), to: end, insert: "" };
+    }
+
+    // --- Tree navigation ---
+
+    private root(): SyntaxNode | null {
+        return rootValue(this.syntax);
+    }
+
+    private find(path: HumlPath): SyntaxNode | null {
+        const root = this.root();
+        if (!root) return null;
+        if (path.length === 0) return root;
+        const steps = this.resolve(path);
+        const last = steps[steps.length - 1]!;
+        return steps.length === path.length && last.entry ? last.entry.value : null;
+    }
+
+    // Walk the path as far as it exists; one step per matched segment plus the first missing one
+    private resolve(path: HumlPath): Step[] {
+        const steps: Step[] = [];
+        let node = this.root()!;
+        for (const segment of path) {
+            const entry = this.entries(node).find((e, i) => typeof segment === "number" ? i === segment : e.key === segment);
+            const matches = typeof segment === "number" ? LIST_CONTAINERS.has(node.name) : DICT_CONTAINERS.has(node.name);
+            if (!entry || !matches) {
+                steps.push({ container: node });
+                return steps;
+            }
+            steps.push({ container: node, entry });
+            node = entry.value;
+        }
+        return steps;
+    }
+
+    private entries(container: SyntaxNode): Entry[] {
+        return entriesOf(container, (from, to) => this.source.slice(from, to));
+    }
+
+    // --- Text positions ---
+
+    // Start of the entry's line, moved up over comment lines directly above it
+    private entryStart(node: SyntaxNode): number {
+        let start = this.lineStart(node.from);
+        while (start > 0) {
+            const prev = this.lineStart(start - 1);
+            if (!this.source.slice(prev, start - 1).trimStart().startsWith("#")) break;
+            start = prev;
+        }
+        return start;
+    }
+
+    private lineStart(pos: number): number {
+        return this.source.lastIndexOf("\n", pos - 1) + 1;
+    }
+
+    // End of the line's content, before a "\r\n" line break too
+    private lineEnd(pos: number): number {
+        const end = this.source.indexOf("\n", pos);
+        if (end < 0) return this.source.length;
+        return this.source[end - 1] === "\r" && end - 1 >= pos ? end - 1 : end;
+    }
+
+    private indentAt(pos: number): string {
+        return " ".repeat(pos - this.lineStart(pos));
+    }
+}
+
+// --- Helpers ---
+
+// Nested dicts for the path segments still missing below a new key
+function build(path: HumlPath, value: unknown): unknown {
+    let result = value;
+    for (let i = path.length - 1; i >= 0; i--) {
+        const segment = path[i]!;
+        if (typeof segment === "number") {
+            if (segment !== 0) throw new RangeError(`List index ${segment} out of bounds in new list`);
+            result = [result];
+        } else {
+            result = { [segment]: result };
+        }
+    }
+    return result;
+}
+
+function replaceEntryValue(container: HumlValue, index: number, key: string | undefined, value: unknown): unknown {
+    if (Array.isArray(container)) return container.map((item, i) => i === index ? value : item);
+    return { ...(container as object), [key!]: value };
+}
+
+function removeEntry(container: HumlValue, index: number, key: string | undefined): unknown {
+    if (Array.isArray(container)) return container.filter((_, i) => i !== index);
+    const { [key!]: _removed, ...rest } = container as { [key: string]: HumlValue };
+    return rest;
+}
+
+function describePath(path: HumlPath): string {
+    return path.length === 0 ? "the document root" : formatPath(path);
+}
@@ -0,0 +1,297 @@
+/**
+ * Options for {@link stringify}
+ */
+export interface StringifyOptions {
+    /**
+     * Emit a `%HUML` version directive as the first line, e.g. `"0.1.0"`
+     * or `"v0.1.0"` produces `%HUML v0.1.0`.
+     */
+    version?: string;
+    /**
+     * Maximum line width for inline collections (`key:: 1, 2, 3`).
+     * Lists and dicts of plain scalars that fit are written inline,
+     * everything else as indented blocks. Set to `0` to always use blocks.
+     * Defaults to `80`.
+     */
+    inlineWidth?: number;
+}
+
+const INDENT = "  ";
+const RESERVED_WORDS = new Set(["true", "false", "null", "nan", "inf"]);
+const BARE_KEY = /^[A-Za-z_][A-Za-z0-9_-]*$/;
+
+/**
+ * Serialize a JavaScript value to HUML text.
+ *
+ * Objects become dictionaries and arrays become lists. `undefined`,
+ * functions and symbols are skipped inside objects (like `JSON.stringify`),
+ * and values with a `toJSON` method are serialized through it.
+ *
+ * @param value - The value to serialize.
+ * @param options - Formatting options.
+ * @returns HUML text ending with a newline.
+ * @throws {TypeError} If the value is circular or cannot be represented.
+ *
+ * @example
+ * ```typescript
+ * import { stringify } from "@nayanvr/lang-huml";
+ *
+ * stringify({ name: "demo", ports: [80, 443] });
+ * // => 'name: "demo"\nports:: 80, 443\n'
+ * ```
+ */
+export function stringify(value: unknown, options: StringifyOptions = {}): string {
+    const encoder = new Encoder(options.inlineWidth ?? 80);
+    let output = "";
+
+    if (options.version !== undefined) {
+        const version = options.version.startsWith("v") ? options.version : `v${options.version}`;
+        output += `%HUML ${version}\n`;
+    }
+
+    return output + encoder.root(value) + "\n";
+}
+
+/**
+ * Alias of {@link stringify}.
+ */
+export const encode: (value: unknown, options?: StringifyOptions) => string = stringify;
+
+/**
+ * Quote a key when `keyToken` would not accept it as a bare key
+ * (reserved words, leading dashes or digits, spaces, ...)
+ */
+export function encodeKey(key: string): string {
+    return BARE_KEY.test(key) && !RESERVED_WORDS.has(key) ? key : encodeString(key);
+}
+
+/**
+ * Encode a string as a double-quoted HUML string literal
+ */
+export function encodeString(text: string): string {
+    let result = '"';
+    for (let i = 0; i < text.length; i++) {
+        const ch = text[i]!;
+        const code = ch.charCodeAt(0);
+        switch (ch) {
+            case '"': result += '\\"'; break;
+            case "\\": result += "\\\\"; break;
+            case "\n": result += "\\n"; break;
+            case "\t": result += "\\t"; break;
+            case "\r": result += "\\r"; break;
+            case "\b": result += "\\b"; break;
+            case "\f": result += "\\f"; break;
+            default:
+                result += code < 0x20 || code === 0x7f
+                    ? "\\u" + code.toString(16).padStart(4, "0")
+                    : ch;
+        }
+    }
+    return result + '"';
+}
+
+/**
+ * Encode a number, including `nan`, `inf` and `-inf`
+ */
+export function encodeNumber(value: number): string {
+    if (Number.isNaN(value)) return "nan";
+    if (value === Infinity) return "inf";
+    if (value === -Infinity) return "-inf";
+    return String(value);
+}
+
+/**
+ * Encode the part of a property that follows its key: `: value`,
+ * `:: 1, 2` or `::` followed by an indented block.
+ *
+ * @param indent - The indentation of the line holding the key.
+ */
+export function encodePropertyValue(value: unknown, indent: string, options: StringifyOptions = {}): string {
+    return new Encoder(options.inlineWidth ?? 80).entryFor(value, ":", "::", indent);
+}
+
+/**
+ * Encode a list item (`- value` or `- :: ...`) without its leading indentation.
+ *
+ * @param indent - The indentation of the line holding the list mark.
+ */
+export function encodeListItem(value: unknown, indent: string, options: StringifyOptions = {}): string {
+    return new Encoder(options.inlineWidth ?? 80).entryFor(value, "-", "- ::", indent);
+}
+
+/**
+ * Encode a value that fits on one line as a scalar, or return `null`
+ * for collections and multiline strings
+ */
+export function encodeScalar(value: unknown): string | null {
+    const node = new Encoder(0).normalize(value);
+    return node.kind === "scalar" ? node.text : null;
+}
+
+type Normalized =
+    | { kind: "scalar"; text: string }
+    | { kind: "multiline"; text: string }
+    | { kind: "list"; items: unknown[] }
+    | { kind: "dict"; entries: [string, unknown][] }
+    | { kind: "skip" };
+
+class Encoder {
+    private readonly seen = new Set<object>();
+
+    constructor(private readonly inlineWidth: number) {}
+
+    root(value: unknown): string {
+        const node = this.normalize(value);
+        switch (node.kind) {
+            case "skip":
+                throw new TypeError(`Cannot serialize ${typeof value} as a HUML document`);
+            case "scalar":
+                return node.text;
+            case "multiline":
+                return this.multiline(node.text, "");
+            case "list":
+                if (node.items.length === 0) return "[]";
+                return this.withObject(value, () => this.listBlock(node.items, ""));
+            case "dict":
+                if (node.entries.length === 0) return "{}";
+                return this.withObject(value, () => this.dictBlock(node.entries, ""));
+        }
+    }
+
+    entryFor(value: unknown, scalarPrefix: string, collectionPrefix: string, indent: string): string {
+        const node = this.normalize(value);
+        if (node.kind === "skip") throw new TypeError(`Cannot serialize ${typeof value} as a HUML value`);
+        return this.withObject(value, () => this.entry(scalarPrefix, collectionPrefix, node, indent));
+    }
+
+    private dictBlock(entries: [string, unknown][], indent: string): string {
+        const lines: string[] = [];
+        for (const [key, raw] of entries) {
+            const node = this.normalize(raw);
+            if (node.kind === "skip") continue;
+            const keyText = indent + encodeKey(key);
+            lines.push(this.withObject(raw, () => this.entry(`${keyText}:`, `${keyText}::`, node, indent)));
+        }
+        return lines.join("\n");
+    }
+
+    private listBlock(items: unknown[], indent: string): string {
+        return items.map((raw) => {
+            const node = this.normalize(raw);
+            // Like JSON, holes in lists are written as null
+            if (node.kind === "skip") return `${indent}- null`;
+            return this.withObject(raw, () => this.entry(`${indent}-`, `${indent}- ::`, node, indent));
+        }).join("\n");
+    }
+
+    // Write a property (`key: value`, `key:: ...`) or list item (`- value`, `- :: ...`)
+    private entry(scalarPrefix: string, collectionPrefix: string, node: Normalized, indent: string): string {
+        const childIndent = indent + INDENT;
+        switch (node.kind) {
+            case "scalar":
+                return `${scalarPrefix} ${node.text}`;
+            case "multiline":
+                return `${scalarPrefix} ${this.multiline(node.text, indent)}`;
+            case "list": {
+                if (node.items.length === 0) return `${collectionPrefix} []`;
+                const inline = this.inlineList(node.items, collectionPrefix.length + 1);
+                if (inline !== null) return `${collectionPrefix} ${inline}`;
+                return `${collectionPrefix}\n${this.listBlock(node.items, childIndent)}`;
+            }
+            case "dict": {
+                if (node.entries.length === 0) return `${collectionPrefix} {}`;
+                const inline = this.inlineDict(node.entries, collectionPrefix.length + 1);
+                if (inline !== null) return `${collectionPrefix} ${inline}`;
+                return `${collectionPrefix}\n${this.dictBlock(node.entries, childIndent)}`;
+            }
+            case "skip":
+                return "";
+        }
+    }
+
+    // The closing delimiter must sit at the indentation of the owning key
+    private multiline(text: string, indent: string): string {
+        const body = text.split("\n").map((line) => line === "" ? "" : indent + INDENT + line);
+        return `"""\n${body.join("\n")}\n${indent}"""`;
+    }
+
+    // Inline lists need at least two plain scalars, otherwise they read as a scalar
+    private inlineList(items: unknown[], used: number): string | null {
+        if (items.length < 2) return null;
+        const parts: string[] = [];
+        for (const item of items) {
+            const node = this.normalize(item);
+            if (node.kind !== "scalar") return null;
+            parts.push(node.text);
+        }
+        return this.fits(parts.join(", "), used);
+    }
+
+    private inlineDict(entries: [string, unknown][], used: number): string | null {
+        const parts: string[] = [];
+        for (const [key, value] of entries) {
+            const node = this.normalize(value);
+            if (node.kind === "skip") continue;
+            if (node.kind !== "scalar") return null;
+            parts.push(`${encodeKey(key)}: ${node.text}`);
+        }
+        if (parts.length < 2) return null;
+        return this.fits(parts.join(", "), used);
+    }
+
+    private fits(text: string, used: number): string | null {
+        return this.inlineWidth > 0 && used + text.length <= this.inlineWidth ? text : null;
+    }
+
+    private withObject<T>(value: unknown, fn: () => T): T {
+        if (typeof value !== "object" || value === null) return fn();
+        if (this.seen.has(value)) throw new TypeError("Converting circular structure to HUML");
+        this.seen.add(value);
+        try {
+            return fn();
+        } finally {
+            this.seen.delete(value);
+        }
+    }
+
+    normalize(value: unknown): Normalized {
+        if (value !== null && typeof value === "object" && typeof (value as { toJSON?: unknown }).toJSON === "function") {
+            value = (value as { toJSON(): unknown }).toJSON();
+        }
+
+        switch (typeof value) {
+            case "string":
+                return canUseBlockString(value)
+                    ? { kind: "multiline", text: value }
+                    : { kind: "scalar", text: encodeString(value) };
+            case "number":
+                return { kind: "scalar", text: encodeNumber(value) };
+            case "bigint":
+                return { kind: "scalar", text: value.toString() };
+            case "boolean":
+                return { kind: "scalar", text: value ? "true" : "false" };
+            case "undefined":
+            case "function":
+            case "symbol":
+                return { kind: "skip" };
+        }
+
+        if (value === null) return { kind: "scalar", text: "null" };
+        if (Array.isArray(value)) return { kind: "list", items: value };
+        // Drop skipped values up front so a dict of only `undefined` counts as empty
+        const entries = Object.entries(value as object).filter(([, v]) => !isSkipped(v));
+        return { kind: "dict", entries };
+    }
+}
+
+function isSkipped(value: unknown): boolean {
+    return value === undefined || typeof value === "function" || typeof value === "symbol";
+}
+
+// Block strings keep text readable, but their content is raw: lines that
+// would close the block early, carriage returns and escapes must stay quoted
+function canUseBlockString(text: string): boolean {
+    if (text.indexOf("\n") < 0) return false;
+    if (text.indexOf("\r") >= 0 || text.indexOf("\\") >= 0) return false;
+    return !text.split("\n").some((line) => /^\s*"""/.test(line));
+}
@@ -0,0 +1,267 @@
+import type { Text } from "@codemirror/state";
+import type { SyntaxNode, Tree } from "@lezer/common";
+
+/**
+ * A syntax error explained in terms of what the parser expected
+ */
+export interface SyntaxProblem {
+    from: number;
+    to: number;
+    message: string;
+    /** Where the error nodes accounted for by this problem start and end */
+    extent: { from: number; to: number };
+}
+
+/**
+ * Turn the error (`⚠`) nodes of a tree into messages.
+ *
+ * The parser usually leaves several error nodes behind for one mistake, so
+ * errors are grouped: one problem per line, and one for everything a
+ * broken multiline string or indented block drags along.
+ *
+ * @param tree - The syntax tree.
+ * @param errors - The ranges of its error nodes, in document order.
+ * @param doc - The document text.
+ */
+export function explainSyntaxErrors(tree: Tree, errors: readonly { from: number; to: number }[], doc: Text): SyntaxProblem[] {
+    const problems: SyntaxProblem[] = [];
+    let covered = -1;
+    let skipRest = false;
+    for (const span of errors) {
+        const last = problems[problems.length - 1];
+        if (span.from < covered || skipRest) {
+            if (last) last.extent.to = Math.max(last.extent.to, span.to);
+            continue;
+        }
+        const node = errorNodeAt(tree, span);
+        if (!node) continue;
+
+        const explanation = explain(node, doc);
+        // Anything after a broken version directive is parsed as something else entirely
+        if (node.parent?.name === "VersionDirective") skipRest = true;
+        if (explanation.cascade) continue;
+
+        covered = Math.max(doc.lineAt(span.from).to + 1, span.to + 1, explanation.through ?? 0);
+        problems.push({
+            from: explanation.range?.from ?? span.from,
+            to: explanation.range?.to ?? span.to,
+            message: explanation.message,
+            extent: { from: span.from, to: span.to },
+        });
+    }
+    return problems;
+}
+
+// --- Helpers ---
+
+interface Explanation {
+    message: string;
+    /** A better range to report than the error node itself */
+    range?: { from: number; to: number };
+    /** The mistake also explains error nodes up to this position */
+    through?: number;
+    /** The node only follows from an earlier error */
+    cascade?: boolean;
+}
+
+const INLINE_LISTS = new Set(["InlineList", "RootInlineList"]);
+const INLINE_DICTS = new Set(["InlineDict", "RootInlineDict"]);
+const KEYED = new Set(["Property", "DictPair"]);
+
+function errorNodeAt(tree: Tree, span: { from: number; to: number }): SyntaxNode | null {
+    let found: SyntaxNode | null = null;
+    tree.iterate({
+        from: span.from,
+        to: span.to,
+        enter(node) {
+            if (found) return false;
+            if (node.type.isError && node.from === span.from && node.to === span.to) {
+                found = node.node;
+                return false;
+            }
+        },
+    });
+    return found;
+}
+
+function explain(node: SyntaxNode, doc: Text): Explanation {
+    const text = doc.sliceString(node.from, node.to);
+    const parent = node.parent;
+    const parentName = parent?.name ?? "";
+    const prev = node.prevSibling;
+    const next = node.nextSibling;
+    const line = doc.lineAt(node.from);
+
+    const multiline = multilineProblem(node, doc);
+    if (multiline) return multiline;
+
+    // The version directive
+    if (parentName === "VersionDirective") {
+        return { message: "Expected a version like \"v0.1.0\" after \"%HUML\"" };
+    }
+    if (text.startsWith("%HUML")) {
+        return { message: "The version directive must be the first line of the document" };
+    }
+
+    // A line indented deeper than its parent allows
+    if (/^\r?\n/.test(text) && node.to > line.to) {
+        const nextLine = doc.lineAt(node.to);
+        const indent = indentOf(nextLine.text);
+        if (indent > indentOf(line.text)) {
+            const through = blockEnd(doc, line);
+            if (prev?.name === ":") {
+                return { message: "Expected a value after \":\"; use \"::\" to start an indented block", through };
+            }
+            const range = { from: nextLine.from, to: nextLine.from + indent };
+            return { message: "Unexpected indentation: only a \"key::\" line can be followed by an indented block", range, through };
+        }
+    }
+
+    // Inline collections
+    if (INLINE_LISTS.has(parentName) || INLINE_DICTS.has(parentName)) {
+        const items = INLINE_LISTS.has(parentName) ? "Inline list items" : "Inline dict entries";
+        if (node.from === node.to && prev?.name === ",") {
+            return next
+                ? { message: `${items} must be separated by ", "` }
+                : { message: "Expected another item after \",\"" };
+        }
+        if (node.from === node.to && parent?.getChild("[") && !parent.getChild("]")) {
+            return { message: "Missing closing \"]\"" };
+        }
+        if (INLINE_LISTS.has(parentName) && /^[A-Za-z_"]/.test(text) && doc.sliceString(node.to, node.to + 1) === ":") {
+            return { message: "Inline lists and inline dicts cannot be mixed" };
+        }
+    }
+
+    // Keys and values
+    if (KEYED.has(parentName) || parentName === "ListItem") {
+        const after = doc.sliceString(node.from, node.from + 1);
+        if (node.from === node.to && (prev?.name === ":" || prev?.name === "::") && after.trim()) {
+            return { message: `Expected space after ${prev.name}` };
+        }
+        if (node.from === node.to) {
+            if (prev?.name === "Key" || prev?.name === "String") return { message: "Expected \":\" or \"::\" after key" };
+            if (prev?.name === ":") return { message: "Expected a value after \":\"" };
+            if (prev?.name === "ListMark") return { message: "Expected a value after \"-\"" };
+            if (prev?.name === "::" || prev?.name === "Newline") return { message: "Expected a collection after \"::\"" };
+        }
+        if (text === " " && prev?.name === "Space") {
+            return { message: "Expected a single space after \":\"" };
+        }
+        const word = /^[A-Za-z_][A-Za-z0-9_-]*/.exec(text);
+        if (word && prev?.name === "Space") {
+            return { message: `Unknown value "${word[0]}": strings must be quoted` };
+        }
+        if (text.startsWith("\"") && !/^"(?:[^"\\\n]|\\.)*"/.test(text)) {
+            return { message: "Unterminated string" };
+        }
+        const escape = text.startsWith("\"") ? /\\(u(?![0-9a-fA-F]{4})|[^"\\/bfnrtu])/.exec(text) : null;
+        if (escape) {
+            return { message: `Invalid escape sequence "${escape[0].slice(0, 2)}" in string` };
+        }
+    }
+
+    // A reserved word where a key was expected
+    if (text.startsWith(":") && prev?.name === "Scalar" && /^(true|false|null|nan|inf)$/.test(doc.sliceString(prev.from, prev.to))) {
+        const word = doc.sliceString(prev.from, prev.to);
+        return { message: `"${word}" is a reserved word and must be quoted to be used as a key`, range: { from: prev.from, to: prev.to } };
+    }
+
+    // Trailing whitespace before the end of a line
+    if (node.from === node.to && prev?.name === "Space" && /^(\r?\n|$)/.test(doc.sliceString(node.from, node.from + 2))) {
+        return { message: "Trailing whitespace" };
+    }
+
+    // Comments
+    if (node.from === node.to && prev?.name === "Comment" && doc.sliceString(prev.from, prev.to) === "#") {
+        return { message: "Comments must have a space after \"#\"" };
+    }
+
+    // List items and key-value pairs side by side
+    if (/^-( |$)/.test(text) && (parentName === "Properties" || parentName === "DictBlockContent")) {
+        return { message: "List items and key-value pairs cannot be mixed in the same block" };
+    }
+    if (/^[A-Za-z_"][^:]*::? /.test(text) && (parentName === "RootListItems" || parentName === "ListBlockContent")) {
+        return { message: "List items and key-value pairs cannot be mixed in the same block" };
+    }
+
+    // Follow-up errors of a root value that failed to parse
+    if (parentName === "Document" && prev?.name === "ExclusiveRootValue" && hasError(prev)) {
+        return { message: "", cascade: true };
+    }
+
+    if (text.trim()) return { message: `Unexpected "${truncate(text.trim())}"` };
+    return { message: node.from >= doc.length ? "Unexpected end of document" : "Syntax error" };
+}
+
+// Problems with a `"""` or ``` string opened on the error's line
+function multilineProblem(node: SyntaxNode, doc: Text): Explanation | null {
+    const line = doc.lineAt(node.from);
+    const column = node.from - line.from;
+    for (const delimiter of ["\"\"\"", "```"]) {
+        const opener = line.text.indexOf(delimiter);
+        if (opener < 0 || column < opener || column > opener + 3) continue;
+
+        const start = line.from + opener;
+        const closing = closingLine(doc, line, delimiter);
+        if (line.text.slice(opener + 3).trim()) {
+            return {
+                message: `The content of a multiline string starts on the line after ${delimiter}`,
+                range: { from: start + 3, to: line.to },
+                through: closing ? closing.to + 1 : undefined,
+            };
+        }
+        if (!closing) {
+            return { message: `Missing closing ${delimiter} for the multiline string`, range: { from: start, to: start + 3 }, through: doc.length + 1 };
+        }
+        const expected = indentOf(line.text);
+        const actual = indentOf(closing.text);
+        if (actual !== expected) {
+            return {
+                message: `Closing ${delimiter} must be indented to column ${expected} to match its key`,
+                range: { from: closing.from, to: closing.from + actual + 3 },
+                through: closing.to + 1,
+            };
+        }
+    }
+    return null;
+}
+
+function closingLine(doc: Text, opener: { number: number }, delimiter: string) {
+    for (let n = opener.number + 1; n <= doc.lines; n++) {
+        const line = doc.line(n);
+        if (line.text.trimStart().startsWith(delimiter)) return line;
+    }
+    return null;
+}
+
+// The end of the lines indented deeper than `line` that follow it
+function blockEnd(doc: Text, line: { number: number; text: string; to: number }): number {
+    const indent = indentOf(line.text);
+    let end = line.to;
+    for (let n = line.number + 1; n <= doc.lines; n++) {
+        const next = doc.line(n);
+        if (next.text.trim() && indentOf(next.text) <= indent) break;
+        end = next.to;
+    }
+    return end + 1;
+}
+
+function hasError(node: SyntaxNode): boolean {
+    let found = false;
+    node.toTree().iterate({
+        enter(child) {
+            if (child.type.isError) found = true;
+            return !found;
+        },
+    });
+    return found;
+}
+
+function indentOf(text: string): number {
+    return /^[ \t]*/.exec(text)![0].length;
+}
+
+function truncate(text: string): string {
+    return text.length > 50 ? text.slice(0, 50) + "..." : text;
+}
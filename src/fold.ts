@@ -0,0 +1,160 @@
+import { codeFolding, foldEffect, foldedRanges, foldService, syntaxTree, unfoldEffect } from "@codemirror/language";
+import type { EditorState, Extension, StateCommand, StateEffect } from "@codemirror/state";
+import type { EditorView } from "@codemirror/view";
+import type { SyntaxNode } from "@lezer/common";
+import { humlLanguage } from "./language";
+import { contentEnd } from "./navigation";
+
+/**
+ * Code folding for HUML.
+ *
+ * The language itself folds the indented block below a `key::` or `- ::`
+ * line, leaving the line (and any comment on it) visible. This adds folding
+ * for multiline strings, between their delimiters, and for long inline
+ * lists and dictionaries on their own line. Folded ranges show what they
+ * hide, e.g. `[… 42 items]`.
+ */
+export function humlFolding(): Extension {
+    return [
+        foldService.of((state, lineStart, lineEnd) => {
+            if (!humlLanguage.isActiveAt(state, lineStart)) return null;
+            const target = foldTarget(state, lineStart, lineEnd);
+            // Blocks fold through the language's fold node prop
+            return target && target.node.name !== "Block" ? target.range : null;
+        }),
+        codeFolding({ preparePlaceholder: foldSummary, placeholderDOM }),
+    ];
+}
+
+/**
+ * Describe what a folded range hides: `… 3 keys`, `… 42 items` or
+ * `… 12 lines`, or just `…` for ranges not folded by {@link humlFolding}.
+ */
+export function foldSummary(state: EditorState, range: { from: number; to: number }): string {
+    const line = state.doc.lineAt(range.from);
+    const target = foldTarget(state, line.from, line.to);
+    if (!target || target.range.from !== range.from || target.range.to !== range.to) return "…";
+
+    const { node } = target;
+    switch (node.name) {
+        case "Block": {
+            const list = node.getChild("ListBlockContent");
+            return list ? `… ${count(list.getChildren("ListItem").length, "item")}` : `… ${count(node.getChild("DictBlockContent")?.getChildren("Property").length ?? 0, "key")}`;
+        }
+        case "InlineList":
+            return `… ${count(node.getChildren("Scalar").length, "item")}`;
+        case "InlineDict":
+            return `… ${count(node.getChildren("DictPair").length, "key")}`;
+        default:
+            return `… ${count(state.doc.lineAt(node.to).number - line.number - 1, "line")}`;
+    }
+}
+
+/**
+ * Command that folds every block nested `depth` levels deep: `0` folds the
+ * blocks under top-level keys, `1` the blocks inside those, and so on.
+ * Returns `false` when there is nothing left to fold at that depth.
+ */
+export function foldToDepth(depth: number): StateCommand {
+    return ({ state, dispatch }) => {
+        const folded = foldedRanges(state);
+        const effects: StateEffect<unknown>[] = [];
+        let level = 0;
+        syntaxTree(state).iterate({
+            enter(node) {
+                if (node.name !== "Block") return;
+                if (level < depth) {
+                    level++;
+                    return;
+                }
+                const range = blockRange(node.node);
+                let done = false;
+                folded.between(range.from, range.from, (from, to) => { done ||= from === range.from && to === range.to; });
+                if (range.to > range.from && !done) effects.push(foldEffect.of(range));
+                // Blocks inside a folded one stay hidden anyway
+                return false;
+            },
+            leave(node) {
+                if (node.name === "Block") level--;
+            },
+        });
+        if (effects.length === 0) return false;
+        dispatch(state.update({ effects }));
+        return true;
+    };
+}
+
+/**
+ * Command that unfolds the blocks enclosing the cursor, revealing the path
+ * to it while the rest of the document stays folded. Pairs with
+ * {@link foldToDepth} to focus on one part of a large document.
+ */
+export const unfoldToCursor: StateCommand = ({ state, dispatch }) => {
+    const head = state.selection.main.head;
+    const effects: StateEffect<unknown>[] = [];
+    foldedRanges(state).between(head, head, (from, to) => {
+        if (from < head && head <= to) effects.push(unfoldEffect.of({ from, to }));
+    });
+    if (effects.length === 0) return false;
+    dispatch(state.update({ effects, selection: { anchor: head }, scrollIntoView: true }));
+    return true;
+};
+
+// --- Helpers ---
+
+// Inline collections shorter than this are not worth folding
+const MIN_INLINE_FOLD = 40;
+
+const MULTILINE = new Set(["BlockString", "FoldedString"]);
+
+// The foldable node on a line and the range it folds
+function foldTarget(state: EditorState, lineStart: number, lineEnd: number): { node: SyntaxNode; range: { from: number; to: number } } | null {
+    const tree = syntaxTree(state);
+
+    // A block starts with the newline ending the line that opens it
+    for (let node: SyntaxNode | null = tree.resolveInner(lineEnd, 1); node; node = node.parent) {
+        if (node.from !== lineEnd) break;
+        if (node.name === "Block") {
+            const range = blockRange(node);
+            return range.to > range.from ? { node, range } : null;
+        }
+    }
+
+    let found: { node: SyntaxNode; range: { from: number; to: number } } | null = null;
+    tree.iterate({
+        from: lineStart,
+        to: lineEnd,
+        enter(ref) {
+            if (found || ref.from < lineStart) return !found;
+            const node = ref.node;
+            if (MULTILINE.has(node.name) && node.to > lineEnd) {
+                found = { node, range: { from: node.from + 3, to: node.to - 3 } };
+            } else if (node.name === "InlineList" || node.name === "InlineDict") {
+                const open = node.getChild("[");
+                const close = node.getChild("]");
+                const range = open && close ? { from: open.to, to: close.from } : { from: node.from, to: node.to };
+                if (range.to - range.from >= MIN_INLINE_FOLD) found = { node, range };
+            }
+            return !found;
+        },
+    });
+    return found;
+}
+
+function blockRange(block: SyntaxNode): { from: number; to: number } {
+    return { from: block.from, to: contentEnd(block) };
+}
+
+function count(n: number, noun: string): string {
+    return `${n} ${noun}${n === 1 ? "" : "s"}`;
+}
+
+function placeholderDOM(view: EditorView, onclick: (event: Event) => void, summary: string): HTMLElement {
+    const element = document.createElement("span");
+    element.className = "cm-foldPlaceholder";
+    element.textContent = summary;
+    element.title = view.state.phrase("unfold");
+    element.setAttribute("aria-label", view.state.phrase("folded code"));
+    element.onclick = onclick;
+    return element;
+}
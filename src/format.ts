@@ -0,0 +1,253 @@
+import type { StateCommand } from "@codemirror/state";
+import type { Tree } from "@lezer/common";
+import { syntaxError } from "./decoder";
+import { safeFixChanges } from "./diagnostics";
+import { parser } from "./huml-parser-typed";
+import { BOM, detectLineEnding, lineBreak, type LineEnding } from "./newlines";
+
+/**
+ * Options for {@link format}
+ */
+export interface FormatOptions {
+    /** Align the trailing comments of consecutive lines to one column. Defaults to `false`. */
+    alignComments?: boolean;
+    /** Maximum number of consecutive blank lines to keep. Defaults to `1`. */
+    maxBlankLines?: number;
+    /**
+     * Line breaks of the result: `"lf"`, `"crlf"`, or `"preserve"` to use
+     * the one most lines of the input end with. Defaults to `"preserve"`.
+     */
+    lineEnding?: LineEnding;
+}
+
+/**
+ * Format a HUML document.
+ *
+ * Works from the syntax tree: re-indents blocks to two spaces per level,
+ * puts exactly one space after `::` and before trailing comments, collapses
+ * runs of blank lines and optionally aligns trailing comments. Comments and
+ * the contents of strings (including multiline strings) are kept as they
+ * are, and so is a leading byte order mark.
+ *
+ * Spacing the grammar rejects, like `key:value`, trailing spaces or
+ * `[1,2]`, is a syntax error, so such documents are not touched; in the
+ * editor, {@link formatHuml} applies the linter's safe fixes first.
+ *
+ * @param text - The HUML source text.
+ * @param options - Formatting options.
+ * @returns The formatted text, ending with a single newline, or `text`
+ * unchanged if it has syntax errors; such documents are left for the user
+ * to fix.
+ *
+ * @example
+ * ```typescript
+ * import { format } from "@nayanvr/lang-huml";
+ *
+ * format("server::\n    port: 8080   # http\n\n\n    hosts::  [\"a\", \"b\"]\n");
+ * // => 'server::\n  port: 8080 # http\n\n  hosts:: ["a", "b"]\n'
+ * ```
+ */
+export function format(text: string, options: FormatOptions = {}): string {
+    return formatText(text, options) ?? text;
+}
+
+/**
+ * Command that formats the whole document with the default options.
+ *
+ * Applies the safe quick fixes of {@link fixAllHuml} first, such as a
+ * missing space after `:` or trailing whitespace, then formats the result.
+ * Does nothing (and returns `false`) when syntax errors remain, e.g. for
+ * inline lists without a space after their commas.
+ */
+export const formatHuml: StateCommand = ({ state, dispatch }) => {
+    const fixes = safeFixChanges(state);
+    const fixed = fixes.empty ? state : state.update({ changes: fixes }).state;
+    const text = fixed.doc.toString();
+    const formatted = formatText(text, {});
+    if (formatted === null) return false;
+    if (fixes.empty && formatted === text) return true;
+
+    // Replace only the span that actually changed so the selection and
+    // history around it stay intact
+    let from = 0;
+    const shortest = Math.min(text.length, formatted.length);
+    while (from < shortest && text[from] === formatted[from]) from++;
+    let end = 0;
+    while (end < shortest - from && text[text.length - 1 - end] === formatted[formatted.length - 1 - end]) end++;
+
+    const layout = fixed.changes({ from, to: text.length - end, insert: formatted.slice(from, formatted.length - end) });
+    dispatch(state.update({ changes: fixes.compose(layout), userEvent: "input.format" }));
+    return true;
+};
+
+// --- Helpers ---
+
+// The formatted text, or null when the document has syntax errors
+function formatText(text: string, options: FormatOptions): string | null {
+    const bom = text.startsWith(BOM) ? BOM : "";
+    const source = text.slice(bom.length);
+    const tree = parser.parse(source);
+    if (syntaxError(tree, source)) return null;
+
+    const lines = new Formatter(source, options.maxBlankLines ?? 1).run(tree);
+    if (lines.length === 0) return "";
+    if (options.alignComments) alignComments(lines);
+
+    const ending = options.lineEnding && options.lineEnding !== "preserve" ? options.lineEnding : detectLineEnding(text);
+    const newline = lineBreak(ending);
+    const result = bom + lines.map(render).join(newline) + newline;
+    // Only hand back documents the parser accepts
+    return syntaxError(parser.parse(result), result) ? null : result;
+}
+
+interface Line {
+    indent: number;
+    /** Everything before the trailing comment, already normalized */
+    code: string;
+    comment: string | null;
+    /** Set for lines copied as they are, e.g. multiline string content */
+    verbatim?: string;
+}
+
+// Tokens followed by a space when more code follows on their line
+const SPACED = new Set([":", "::", ",", "%HUML"]);
+
+// Rebuilds the lines of a document from the tokens of its syntax tree
+class Formatter {
+    private out: Line[] = [];
+    private line: Line | null = null;
+    private depth = 0;
+    /** Indentation of the current line in the source */
+    private actual = 0;
+    private blank = 0;
+    private space = false;
+
+    constructor(private source: string, private maxBlankLines: number) {}
+
+    run(tree: Tree): Line[] {
+        tree.iterate({
+            enter: (node) => {
+                if (node.node.firstChild) return;
+                this.token(node.name, this.source.slice(node.from, node.to));
+            },
+        });
+        this.endLine();
+        return this.out;
+    }
+
+    private token(name: string, text: string) {
+        switch (name) {
+            case "Indent":
+                this.depth++;
+                this.lineBreak(text);
+                break;
+            case "Dedent":
+                this.depth--;
+                break;
+            case "Newline":
+                this.lineBreak(text);
+                break;
+            case "Space":
+                break;
+            case "Comment":
+                this.current().comment = text;
+                break;
+            case "ListMark":
+                // The grammar needs the space after a bare list mark before a block
+                this.code("- ");
+                break;
+            case "BlockString":
+            case "FoldedString":
+                this.multiline(text);
+                break;
+            default:
+                this.code(text);
+                this.space = SPACED.has(name);
+        }
+    }
+
+    // The line being built, started at the indentation of the current block
+    private current(): Line {
+        return this.line ??= { indent: this.depth * 2, code: "", comment: null };
+    }
+
+    private code(text: string) {
+        if (!text) return;
+        const line = this.current();
+        if (this.space) line.code += " ";
+        line.code += text;
+        this.space = false;
+    }
+
+    private lineBreak(text: string) {
+        this.endLine();
+        this.actual = text.length - text.lastIndexOf("\n") - 1;
+    }
+
+    private endLine() {
+        if (this.line) {
+            this.push(this.line);
+        } else {
+            this.blank++;
+        }
+        this.line = null;
+        this.space = false;
+    }
+
+    private push(line: Line) {
+        if (this.out.length > 0) {
+            for (let n = Math.min(this.blank, this.maxBlankLines); n > 0; n--) this.out.push({ indent: 0, code: "", comment: null });
+        }
+        this.blank = 0;
+        this.out.push(line);
+    }
+
+    // Copy multiline string content shifted along with its owner; the
+    // closing delimiter starts a line of its own at the owner's indentation
+    private multiline(text: string) {
+        const lines = text.split(/\r?\n/);
+        this.code(lines[0]!);
+        if (lines.length === 1) return;
+
+        const owner = this.line!;
+        this.push(owner);
+        for (const raw of lines.slice(1, -1)) {
+            this.out.push({ indent: 0, code: "", comment: null, verbatim: shiftLine(raw, owner.indent - this.actual) });
+        }
+        this.line = { indent: owner.indent, code: lines[lines.length - 1]!.trimStart(), comment: null };
+    }
+}
+
+function render(line: Line): string {
+    if (line.verbatim !== undefined) return line.verbatim;
+    if (!line.code && !line.comment) return "";
+    const prefix = " ".repeat(line.indent) + line.code;
+    if (line.comment === null) return prefix;
+    return line.code ? prefix + " " + line.comment : prefix + line.comment;
+}
+
+// Pad the code of consecutive lines with trailing comments so the comments line up
+function alignComments(lines: Line[]) {
+    let start = 0;
+    while (start < lines.length) {
+        let end = start;
+        while (end < lines.length && lines[end]!.code && lines[end]!.comment !== null && lines[end]!.verbatim === undefined) end++;
+        if (end - start > 1) {
+            const group = lines.slice(start, end);
+            const width = Math.max(...group.map((line) => line.indent + line.code.length));
+            for (const line of group) line.code = line.code.padEnd(width - line.indent);
+        }
+        start = Math.max(end, start + 1);
+    }
+}
+
+function shiftLine(raw: string, shift: number): string {
+    if (shift > 0) return raw.trim() ? " ".repeat(shift) + raw : raw;
+    let i = 0;
+    while (i < -shift && isSpace(raw[i])) i++;
+    return raw.slice(i);
+}
+
+function isSpace(ch: string | undefined): boolean {
+    return ch === " " || ch === "\t";
+}
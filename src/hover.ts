@@ -0,0 +1,106 @@
+import { syntaxTree } from "@codemirror/language";
+import type { EditorState, Extension } from "@codemirror/state";
+import { hoverTooltip } from "@codemirror/view";
+import { formatPath, isKeyNode, pathOfNode, type TextReader } from "./navigation";
+import { decodeNumber, decodeSpecialNumber, decodeString } from "./scalars";
+import { schemasAt, type JsonSchema } from "./schema";
+
+/**
+ * Options for {@link humlHover}
+ */
+export interface HumlHoverOptions {
+    /** JSON Schema whose `title` and `description` are added to the tooltip */
+    schema?: JsonSchema;
+}
+
+/**
+ * What the hover tooltip shows for a position in the document
+ */
+export interface HoverInfo {
+    /** Start of the hovered key or value */
+    from: number;
+    /** End of the hovered key or value */
+    to: number;
+    /** Full path of a hovered key, e.g. `server.listeners[2].port` */
+    path?: string;
+    /** Decoded value of a hovered number or escaped string */
+    value?: string;
+    /** Schema title of the entry */
+    title?: string;
+    /** Schema description of the entry */
+    description?: string;
+}
+
+/**
+ * Hover tooltips for HUML documents.
+ *
+ * Over a key they show its full path, over numbers written in hex, octal,
+ * binary or with underscores (and `nan`/`inf`) the number they stand for,
+ * and over strings with escapes the unescaped text. With a schema the
+ * entry's `title` and `description` are added.
+ */
+export function humlHover(options: HumlHoverOptions = {}): Extension {
+    return hoverTooltip((view, pos, side) => {
+        const info = hoverInfo(view.state, pos, side, options.schema);
+        if (!info) return null;
+
+        return {
+            pos: info.from,
+            end: info.to,
+            above: true,
+            create: () => {
+                const dom = document.createElement("div");
+                dom.className = "cm-huml-hover";
+                if (info.path) {
+                    const path = dom.appendChild(document.createElement("code"));
+                    path.className = "cm-huml-hover-path";
+                    path.textContent = info.path;
+                }
+                if (info.value !== undefined) {
+                    const value = dom.appendChild(document.createElement("div"));
+                    value.className = "cm-huml-hover-value";
+                    value.textContent = info.value;
+                }
+                if (info.title) {
+                    const title = dom.appendChild(document.createElement("strong"));
+                    title.textContent = info.title;
+                }
+                if (info.description) {
+                    const description = dom.appendChild(document.createElement("div"));
+                    description.textContent = info.description;
+                }
+                return { dom };
+            },
+        };
+    });
+}
+
+/**
+ * Work out the tooltip content for `pos`, or `null` when there is nothing
+ * worth showing (plain values like `80` or `"text"` get no tooltip)
+ */
+export function hoverInfo(state: EditorState, pos: number, side: -1 | 1, schema?: JsonSchema): HoverInfo | null {
+    const node = syntaxTree(state).resolveInner(pos, side);
+    const read: TextReader = (from, to) => state.sliceDoc(from, to);
+    const literal = read(node.from, node.to);
+    const info: HoverInfo = { from: node.from, to: node.to };
+
+    if (isKeyNode(node)) {
+        info.path = formatPath(pathOfNode(node, read));
+    } else if (node.name === "Number" || node.name === "SpecialNumber") {
+        const value = String(node.name === "Number" ? decodeNumber(literal) : decodeSpecialNumber(literal));
+        if (value === literal) return null;
+        info.value = value;
+    } else if (node.name === "String" && literal.includes("\\")) {
+        info.value = decodeString(literal);
+    } else {
+        return null;
+    }
+
+    if (schema) {
+        const documented = schemasAt(schema, pathOfNode(node, read)).find((s) => s.description || s.title);
+        info.title = documented?.title;
+        info.description = documented?.description;
+    }
+    return info;
+}
@@ -10,31 +10,32 @@ export const
   Key = 8,
   ListMark = 9,
   Document = 10,
-  VersionDirective = 11,
-  Space = 13,
-  VersionString = 14,
-  Properties = 15,
-  Filler = 16,
-  Comment = 17,
-  Property = 18,
-  Scalar = 20,
-  Boolean = 21,
-  Null = 22,
-  SpecialNumber = 23,
-  Collection = 25,
-  EmptyList = 26,
-  EmptyDict = 27,
-  InlineDict = 28,
-  DictPair = 29,
-  InlineList = 31,
-  Block = 34,
-  ListBlockContent = 35,
-  ListItem = 36,
-  Separator = 37,
-  DictBlockContent = 38,
-  RootListItems = 39,
-  RootListItem = 40,
-  ExclusiveRootValue = 41,
-  RootScalar = 42,
-  RootInlineList = 43,
-  RootInlineDict = 44
+  ByteOrderMark = 11,
+  VersionDirective = 12,
+  Space = 14,
+  VersionString = 15,
+  Properties = 16,
+  Filler = 17,
+  Comment = 18,
+  Property = 19,
+  Scalar = 21,
+  Boolean = 22,
+  Null = 23,
+  SpecialNumber = 24,
+  Collection = 26,
+  EmptyList = 27,
+  EmptyDict = 28,
+  InlineDict = 29,
+  DictPair = 30,
+  InlineList = 32,
+  Block = 35,
+  ListBlockContent = 36,
+  ListItem = 37,
+  Separator = 38,
+  DictBlockContent = 39,
+  RootListItems = 40,
+  RootListItem = 41,
+  ExclusiveRootValue = 42,
+  RootScalar = 43,
+  RootInlineList = 44,
+  RootInlineDict = 45
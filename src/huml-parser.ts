@@ -3,15 +3,15 @@ import {LRParser} from "@lezer/lr"
 import {indentation, multilineStrings, stringToken, numberToken, keyToken, listMarkToken, trackIndent} from "./tokens"
 export const parser = LRParser.deserialize({
   version: 14,
-  states: "1QO!XO#sOOO!`O!bO'#CgOOOo'#D['#D[O!eO!bO'#DZOOO!a'#DZ'#DZO!mO#sO'#ClO$lO#rO'#CkQOOOOOOQO#sOOO$yO!bO,59ROOOo-E7Y-E7YOOO!a,59u,59uOOO!a-E7X-E7XOOOP'#Cr'#CrOOOP'#Cs'#CsO%aO!cO'#CpOOOP'#Cp'#CpOOOP'#Cv'#CvOOOP'#Cw'#CwO%kO!bO'#CnO%sO!bO'#DQO%xO!cO,59VOOOP'#DU'#DUO%xO!cO,59oO&WO!cO'#DWO&iO!bO'#DYO&nO!cO,59qO&|OPO1G.mO'RO!bO,59eO'WO#RO,59YO(cO!qO,59lO)OO#iO'#DZO)]O!cO'#ClO)nOdO'#D`O%xO!cO1G.qOOOO1G.q1G.qO)vOpO'#DaO%xO!cO1G/ZOOOO1G/Z1G/ZO){O!bO,59sO*QO!bO,59tOOOO1G/]1G/]OOO!a7+$X7+$XO'qO!pO1G/PO*VO#RO1G.tO*pO!cO'#CpO*zO!bO'#CyO+PO!cO'#CxO+eO!cO'#C{O+yO!pO'#C{O,QO#iO'#DOOOOP'#Cu'#CuOOOP1G.t1G.tO,fO#RO1G.tO,vO#RO1G.tOOOP1G/W1G/WO-ZO#RO1G/WO-tO#iO,59mOOOP,59z,59zO.RO!bO'#CnOOOP-E7^-E7^OOOO7+$]7+$]OOOP,59{,59{OOOP-E7_-E7_OOOO7+$u7+$uO'qO!pO1G/_O.ZOdO1G/`O.cO!cO7+$kOOOP7+$`7+$`O,fO#RO7+$`O.tO#RO7+$`O/XO!bO,59eO/^O!bO'#D]O/cO!cO,59dO/wO!bO'#D^O/|O!cO,59gOOOP,59g,59gO0bO!bO,59gO0jO!UO'#DPO0uOPO,59jO0zO#RO7+$rOOOP7+$r7+$rO,fO#RO7+$rO1eO#RO7+$rO1xO!bO,59YP1}O!cO'#DZO2YO!cO7+$yO2kO!cO7+$zOOOP<<Gz<<GzO,fO#RO<<GzO'qO!pO1G/PO.ZOdO,59wOOOP-E7Z-E7ZO'qO!pO,59xOOOP-E7[-E7[O2|O!bO1G/ROOOP1G/R1G/RO3UO!cO,59kO3UO!cO,59nOOOP1G/U1G/UOOOP<<H^<<H^O,fO#RO<<H^O3dO#RO<<H^O'qO!pO1G.tO3wO!cO<<HeO4YO!cO<<HfOOOPAN=fAN=fOOOP7+$k7+$kOOOP1G/c1G/cOOOP1G/d1G/dOOOP7+$m7+$mO)vOpO'#D_O3UO!cO1G/VOOOP1G/V1G/VO3UO!cO1G/YOOOP1G/Y1G/YOOOPAN=xAN=xO,fO#ROAN=xOOOP,59y,59yOOOP-E7]-E7]OOOP7+$q7+$qOOOP7+$t7+$tOOOPG23dG23d",
-  stateData: "4k~ORSO]QOaSOS`PT`PU`PV`PW`PX`Pe`P!V`P!W`P!X`P!Y`P!Z`P![`P!]`P~O[PO~PQO]XO~O]QOaZO~ORSO]QOaSOS`XT`XU`XV`XW`XX`Xe`X!V`X!W`X!X`X!Y`X!Z`X![`X!]`X!U`X~OS`OT`OV`Oe`O!V]O!W^O!X^O!Y^O!Z^O![aO!]bO~OU_OWcOXdO~P#wO^kO~ORdX]dXadXndX!UdX~OclOhmO~P%OOclOhmO~O]nO~ORoO]QOaSO!U`P~OnwORzX]zXazX!UzX~OnxO~ORSO]QOaSO!U`P~ORzO~O]{O~OP!SOR!VOU}OW!OO]QOa!WOp!RO~P#wOS`OT`OU`OV`Oe`O!V]O!W^O!X^O!Y^O!Z^O~OP!SOh!YO~P'qOR}X]}Xa}X!U}XQ}X~OUuXWuXXuX~P(mOR!ZO]QOaSO!U`XQ`X~OU!]OW!]O~OXdO~O]!cO~O]!dO~OP!SOR!gOU}OW!OO]QOa!hOp!RO~P#wOc!iOQdX~P%OOc!iO~On!jORlX]lXalX!UlXQlX~On!lORoX]oXaoX!UoXQoX~Oq!nO~P'qORSO]QOaSOU`PW`PX`P~OP!SOU}OW!OOp!RO~P#wOP!SOR!gOU}OW!OOp!RO~P#wOP!SOR!tOU}OW!OO]QOa!uOp!RO~P#wOUuaWuaXua~P(mOc!vOhmO~OU!OOW!OO~ORbq]bqabqnmq!Ubq~OP!SOR!{OU}OW!OOp!RO~P#wO]!|O~O]!}O~On!jORla]laala!UlaQla~O]#PO~On!lORoa]oaaoa!UoaQoa~On!lOq#SO~OU!]OW!]OXdO~OQ#VO~OP!SOR#XOU}OW!OO]QOa#YOp!RO~P#wOP!SOR#XOU}OW!OOp!RO~P#wO]#ZO~OR!ZO]QOaSO~On!lOR{q]{qa{q!U{q~On!jOR|q]|qa|q!U|q~On!lOq#bO~ORoO]QOaSOQ`P~OP!SOR#iOU}OW!OOp!RO~P#wOn!lOR{y]{ya{y!U{y~On!jOR|y]|ya|y!U|y~O",
-  goto: ")g!UPPPPPPPPPPP!VPPP!Y!^P#QP#ZP$T$TP$m%]%]%`%pP%`PP&Z&n&q&{&n!Y'Z!Y'a'a'a'd'y(g(q)P)V)aRWOTVOWSUOWQseQvgQyjQ!_rQ!buQ!p!SQ#e#TQ#g#UQ#l#dR#m#fQeUQ![qR#U!pQhUl!Qm|!V!W!Y!g!h!r!t!u!{#X#Y#iQ!XnQ!e{Q!f#ZQ!o!RQ!x!cQ#_!|R#a#P}`Umn{|!R!V!W!Y!c!g!h!r!t!u!{!|#P#X#Y#Z#iQ!UmU!f|!V!WQ!s!YS!z!g!hU#W!r!t!uQ#^!{S#h#X#YR#n#iQjUm!Tm|!V!W!Y!g!h!r!t!u!{#X#Y#iQiUl!Pm|!V!W!Y!g!h!r!t!u!{#X#Y#iQ!y!dR#`!}l!Tm|!V!W!Y!g!h!r!t!u!{#X#Y#iR!XnR!q!SSfUtQ#T!pR#j#cWqer#U#fStguT#c#T#dQgUR!`tRjUWTOWj!SU[Tp!wapegru#T#U#d#fnROTWegjpru!S!w#T#U#d#fUYR|!rQ|mR!r!YQ!k!PS#O!k#]R#]!yQ!m!QU#Q!m#R#[Q#R!oR#[!xQ#d#TR#k#dQreS!^r#fR#f#UQugR!au",
-  nodeNames: "⚠ Indent Dedent Newline BlockString FoldedString String Number Key ListMark Document VersionDirective %HUML Space VersionString Properties Filler Comment Property : Scalar Boolean Null SpecialNumber :: Collection EmptyList EmptyDict InlineDict DictPair , InlineList [ ] Block ListBlockContent ListItem Separator DictBlockContent RootListItems RootListItem ExclusiveRootValue RootScalar RootInlineList RootInlineDict",
-  maxTerm: 59,
+  states: "1WO![O#sOOO!cO!bO'#ChOOOo'#D]'#D]O!hO!bO'#D[OOO!a'#D['#D[O!pO#sO'#CmO$oO#rO'#ClQOOOOOO$|O#sOOOQO#sOOO&TO!bO,59SOOOo-E7Z-E7ZOOO!a,59v,59vOOO!a-E7Y-E7YOOOP'#Cs'#CsOOOP'#Ct'#CtO&kO!cO'#CqOOOP'#Cq'#CqOOOP'#Cw'#CwOOOP'#Cx'#CxO&uO!bO'#CoO&}O!bO'#DRO'SO!cO,59WOOOP'#DV'#DVO'SO!cO,59pO'bO!cO'#DXO'sO!bO'#DZO'xO!cO,59rO(WOPO1G.nO(]O!bO,59fO(bO#RO,59ZO)mO!qO,59mO*YO#iO'#D[O*gO!cO'#CmO*xOdO'#DaO'SO!cO1G.rOOOO1G.r1G.rO+QOpO'#DbO'SO!cO1G/[OOOO1G/[1G/[O+VO!bO,59tO+[O!bO,59uOOOO1G/^1G/^OOO!a7+$Y7+$YO({O!pO1G/QO+aO#RO1G.uO+zO!cO'#CqO,UO!bO'#CzO,ZO!cO'#CyO,oO!cO'#C|O-TO!pO'#C|O-[O#iO'#DPOOOP'#Cv'#CvOOOP1G.u1G.uO-pO#RO1G.uO.QO#RO1G.uOOOP1G/X1G/XO.eO#RO1G/XO/OO#iO,59nOOOP,59{,59{O/]O!bO'#CoOOOP-E7_-E7_OOOO7+$^7+$^OOOP,59|,59|OOOP-E7`-E7`OOOO7+$v7+$vO({O!pO1G/`O/eOdO1G/aO/mO!cO7+$lOOOP7+$a7+$aO-pO#RO7+$aO0OO#RO7+$aO0cO!bO,59fO0hO!bO'#D^O0mO!cO,59eO1RO!bO'#D_O1WO!cO,59hOOOP,59h,59hO1lO!bO,59hO1tO!UO'#DQO2POPO,59kO2UO#RO7+$sOOOP7+$s7+$sO-pO#RO7+$sO2oO#RO7+$sO3SO!bO,59ZP3XO!cO'#D[O3dO!cO7+$zO3uO!cO7+${OOOP<<G{<<G{O-pO#RO<<G{O({O!pO1G/QO/eOdO,59xOOOP-E7[-E7[O({O!pO,59yOOOP-E7]-E7]O4WO!bO1G/SOOOP1G/S1G/SO4`O!cO,59lO4`O!cO,59oOOOP1G/V1G/VOOOP<<H_<<H_O-pO#RO<<H_O4nO#RO<<H_O({O!pO1G.uO5RO!cO<<HfO5dO!cO<<HgOOOPAN=gAN=gOOOP7+$l7+$lOOOP1G/d1G/dOOOP1G/e1G/eOOOP7+$n7+$nO+QOpO'#D`O4`O!cO1G/WOOOP1G/W1G/WO4`O!cO1G/ZOOOP1G/Z1G/ZOOOPAN=yAN=yO-pO#ROAN=yOOOP,59z,59zOOOP-E7^-E7^OOOP7+$r7+$rOOOP7+$u7+$uOOOPG23eG23e",
+  stateData: "5u~ORSO]PO^QObSOSaPTaPUaPVaPWaPXaPfaP!WaP!XaP!YaP!ZaP![aP!]aP!^aP~OZXO~PQO^YO~O^QOb[O~ORSO^QObSOSaXTaXUaXVaXWaXXaXfaX!WaX!XaX!YaX!ZaX![aX!]aX!^aX!VaX~OSaOTaOVaOfaO!W^O!X_O!Y_O!Z_O![_O!]bO!^cO~OU`OWdOXeO~P#zORSO^QObSOSaPTaPUaPVaPWaPXaPfaP!WaP!XaP!YaP!ZaP![aP!]aP!^aP~O_lO~OReX^eXbeXoeX!VeX~OdmOinO~P&YOdmOinO~O^oO~ORpO^QObSO!VaP~OoxOR{X^{Xb{X!V{X~OoyO~ORSO^QObSO!VaP~OR{O~O^|O~OP!TOR!WOU!OOW!PO^QOb!XOq!SO~P#zOSaOTaOUaOVaOfaO!W^O!X_O!Y_O!Z_O![_O~OP!TOi!ZO~P({OR!OX^!OXb!OX!V!OXQ!OX~OUvXWvXXvX~P)wOR![O^QObSO!VaXQaX~OU!^OW!^O~OXeO~O^!dO~O^!eO~OP!TOR!hOU!OOW!PO^QOb!iOq!SO~P#zOd!jOQeX~P&YOd!jO~Oo!kORmX^mXbmX!VmXQmX~Oo!mORpX^pXbpX!VpXQpX~Or!oO~P({ORSO^QObSOUaPWaPXaP~OP!TOU!OOW!POq!SO~P#zOP!TOR!hOU!OOW!POq!SO~P#zOP!TOR!uOU!OOW!PO^QOb!vOq!SO~P#zOUvaWvaXva~P)wOd!wOinO~OU!POW!PO~ORcq^cqbcqonq!Vcq~OP!TOR!|OU!OOW!POq!SO~P#zO^!}O~O^#OO~Oo!kORma^mabma!VmaQma~O^#QO~Oo!mORpa^pabpa!VpaQpa~Oo!mOr#TO~OU!^OW!^OXeO~OQ#WO~OP!TOR#YOU!OOW!PO^QOb#ZOq!SO~P#zOP!TOR#YOU!OOW!POq!SO~P#zO^#[O~OR![O^QObSO~Oo!mOR|q^|qb|q!V|q~Oo!kOR}q^}qb}q!V}q~Oo!mOr#cO~ORpO^QObSOQaP~OP!TOR#jOU!OOW!POq!SO~P#zOo!mOR|y^|yb|y!V|y~Oo!kOR}y^}yb}y!V}y~O",
+  goto: ")m!VPPPPPPPPPPPP!WPPP![!aP#UP#_P$X$XP$q%a%a%d%tP%dPP&_&r&u'P&r!['_!['e'e'e'h(O(m(w)V)])gTWOXVVOWXUUOWXQtfQwhQzkQ!`sQ!cvQ!q!TQ#f#UQ#h#VQ#m#eR#n#gQfUQ!]rR#V!qQiUl!Rn}!W!X!Z!h!i!s!u!v!|#Y#Z#jQ!YoQ!f|Q!g#[Q!p!SQ!y!dQ#`!}R#b#Q}aUno|}!S!W!X!Z!d!h!i!s!u!v!|!}#Q#Y#Z#[#jQ!VnU!g}!W!XQ!t!ZS!{!h!iU#X!s!u!vQ#_!|S#i#Y#ZR#o#jQkUm!Un}!W!X!Z!h!i!s!u!v!|#Y#Z#jQjUl!Qn}!W!X!Z!h!i!s!u!v!|#Y#Z#jQ!z!eR#a#Ol!Un}!W!X!Z!h!i!s!u!v!|#Y#Z#jR!YoR!r!TSgUuQ#U!qR#k#dWrfs#V#gSuhvT#d#U#eQhUR!auRkUYTOWXk!TU]Tq!xaqfhsv#U#V#e#gpROTWXfhkqsv!T!x#U#V#e#gUZR}!sQ}nR!s!ZQ!l!QS#P!l#^R#^!zQ!n!RU#R!n#S#]Q#S!pR#]!yQ#e#UR#l#eQsfS!_s#gR#g#VQvhR!bv",
+  nodeNames: "⚠ Indent Dedent Newline BlockString FoldedString String Number Key ListMark Document ByteOrderMark VersionDirective %HUML Space VersionString Properties Filler Comment Property : Scalar Boolean Null SpecialNumber :: Collection EmptyList EmptyDict InlineDict DictPair , InlineList [ ] Block ListBlockContent ListItem Separator DictBlockContent RootListItems RootListItem ExclusiveRootValue RootScalar RootInlineList RootInlineDict",
+  maxTerm: 60,
   context: trackIndent,
   skippedNodes: [0],
   repeatNodeCount: 7,
-  tokenData: "(g~R_pq!Qst!Vuv!v{|#e|}#|}!O$R![!]$j!}#O$w#P#Q%U#Y#Z%Z#]#^%x#b#c&Z#h#i'Q#j#k'^#o#p([~!VO]~~![Pa~pq!_~!dSa~OY!_Z;'S!_;'S;=`!p<%lO!_~!sP;=`<%l!_~!yP!j!k!|~#PP!w!x#S~#VP!o!p#Y~#]P!n!o#`~#eO[~~#hP#]#^#k~#nP#b#c#q~#tP#Y#Z#w~#|O!Y~~$ROn~~$UP#]#^$X~$[P#b#c$_~$bP#Y#Z$e~$jO!Z~~$oPc~![!]$r~$wOh~~$|Pp~#P#Q%P~%UO![~~%ZOq~~%^P#T#U%a~%dP#`#a%g~%jP#g#h%m~%pP#X#Y%s~%xOe~~%{P#b#c&O~&RP#Y#Z&U~&ZO!X~~&^Q#T#U&d#i#j&o~&gP#b#c&j~&oO!W~~&rP#`#a&u~&xP#`#a&{~'QO!V~~'TP#f#g'W~'ZP#i#j%m~'aP!Q!['d~'gQ!O!P'm!Q!['d~'pP!Q!['s~'vQ!O!P'|!Q!['s~(PP!Q![(S~(XP^~!Q![(S~(_P#q#r(b~(gO!]~",
+  tokenData: "(r~R`pq!Tst!Yuv!|{|#k|}$S}!O$X![!]$p!}#O$}#P#Q%[#Y#Z%a#]#^&O#b#c&a#h#i'W#j#k'd#o#p(b?HT?HU(m~!YO^~~!_Pb~pq!b~!gTb~OY!bZ]!b^;'S!b;'S;=`!v<%lO!b~!yP;=`<%l!b~#PP!j!k#S~#VP!w!x#Y~#]P!o!p#`~#cP!n!o#f~#kO]~~#nP#]#^#q~#tP#b#c#w~#zP#Y#Z#}~$SO!Z~~$XOo~~$[P#]#^$_~$bP#b#c$e~$hP#Y#Z$k~$pO![~~$uPd~![!]$x~$}Oi~~%SPq~#P#Q%V~%[O!]~~%aOr~~%dP#T#U%g~%jP#`#a%m~%pP#g#h%s~%vP#X#Y%y~&OOf~~&RP#b#c&U~&XP#Y#Z&[~&aO!Y~~&dQ#T#U&j#i#j&u~&mP#b#c&p~&uO!X~~&xP#`#a&{~'OP#`#a'R~'WO!W~~'ZP#f#g'^~'aP#i#j%s~'gP!Q!['j~'mQ!O!P's!Q!['j~'vP!Q!['y~'|Q!O!P(S!Q!['y~(VP!Q![(Y~(_P_~!Q![(Y~(eP#q#r(h~(mO!^~~(rOZ~",
   tokenizers: [indentation, multilineStrings, stringToken, numberToken, keyToken, listMarkToken, 0],
   topRules: {"Document":[0,10]},
   tokenPrec: 0
@@ -1,60 +1,48 @@
-import { acceptCompletion, autocompletion } from "@codemirror/autocomplete";
-import { indentLess, indentMore } from "@codemirror/commands";
-import { LRLanguage, LanguageSupport, TreeIndentContext, foldInside, foldNodeProp, indentNodeProp, indentUnit } from "@codemirror/language";
-import { linter } from "@codemirror/lint";
-import { keymap } from "@codemirror/view";
-import { styleTags, tags } from "@lezer/highlight";
-import { LRParser } from "@lezer/lr";
-import { humlAutocomplete } from "./autocomplete";
-import { humlLinter } from "./diagnostics";
-import { parser } from "./huml-parser-typed";
-import { humlEnter, humlIndent } from "./indent";
+import { LanguageSupport, indentUnit } from "@codemirror/language";
+import type { Extension } from "@codemirror/state";
+import { humlCompletion, type HumlCompletionOptions } from "./autocomplete";
+import { humlBreadcrumbs } from "./breadcrumbs";
+import { humlLinter, type HumlLintOptions } from "./diagnostics";
+import { humlFolding } from "./fold";
+import { humlHover } from "./hover";
+import { humlKeymap } from "./indent";
+import { humlOutline } from "./outline";
+import { humlPasteJSON } from "./paste";
+import { humlLanguage } from "./language";
+import type { JsonSchema } from "./schema";
 
-// Ensure tags is available - this helps with module resolution issues
-// This check is performed once at module load time for stability
-if (!tags || typeof tags !== 'object') {
-    throw new Error('Failed to import tags from @lezer/highlight');
-}
-
-const parserWithMetadata: LRParser = parser.configure({
-    props: [
-        styleTags({
-            Key: tags.propertyName,    // Should be orange-ish in One Dark
-            String: tags.string,       // Should be green
-            BlockString: tags.string,  // Also green
-            FoldedString: tags.string, // Also green
-            Number: tags.number,       // Should be orange/yellow
-            Boolean: tags.bool,        // Should be cyan
-            Comment: tags.lineComment, // Should be grey italic
-            ListMark: tags.punctuation,
-            Block: tags.meta,
-            ":": tags.punctuation,
-            "::": tags.punctuation
-        }),
-        foldNodeProp.add({
-            Block: foldInside
-        }),
-        indentNodeProp.add((type) => {
-            // Use custom indentation function for smart indentation
-            return (context: TreeIndentContext) => humlIndent(context);
-        })
-    ]
-});
+export { humlLanguage };
 
 /**
- * The LRLanguage definition for HUML.
- *
- * This object defines the parser and language data (such as comment tokens)
- * for the HUML language. It is used internally by the `huml()` function
- * but can also be used directly if you need to configure the language
- * support manually.
+ * Configuration for {@link huml}
  */
-export const humlLanguage: LRLanguage = LRLanguage.define({
-    parser: parserWithMetadata,
-    languageData: {
-        commentTokens: { line: "#" }
-    }
-});
+export interface HumlConfig {
+    /**
+     * JSON Schema describing the document. Enables schema diagnostics,
+     * key and enum value completions, and hover documentation.
+     */
+    schema?: JsonSchema;
+    /** Linting: `false` disables it, an object configures delay and rules. Defaults to `true`. */
+    lint?: boolean | Omit<HumlLintOptions, "schema">;
+    /** Autocompletion: `false` disables it, an object adds extra sources and snippets. Defaults to `true`. */
+    completion?: boolean | Omit<HumlCompletionOptions, "schema">;
+    /** Tab/Shift-Tab/Enter key bindings and structural move, duplicate, delete and indent commands. Defaults to `true`. */
+    keymap?: boolean;
+    /**
+     * Folding for multiline strings and long inline collections, with
+     * summaries of what is folded. Blocks fold with the language alone.
+     * Defaults to `true`.
+     */
+    folding?: boolean;
+    /** Hover tooltips with key paths, decoded values and schema documentation. Defaults to `true`. */
+    hover?: boolean;
+    /** Panel showing the key path at the cursor as clickable breadcrumbs. Defaults to `false`. */
+    breadcrumbs?: boolean;
+    /** Panel showing the document outline. Defaults to `false`. */
+    outline?: boolean;
+    /** Convert pasted JSON objects and arrays to HUML. Defaults to `false`. */
+    pasteJSON?: boolean;
+}
 
 /**
  * HUML language support for CodeMirror 6.
@@ -62,6 +50,11 @@ export const humlLanguage: LRLanguage = LRLanguage.define({
  * This extension provides syntax highlighting, linting, autocompletion,
  * and smart indentation for the HUML data format.
  *
+ * Every piece can be turned off through `config`, and each is also
+ * exported on its own (`humlLinter`, `humlCompletion`, `humlKeymap`,
+ * `humlFolding`) for composing the support by hand.
+ *
+ * @param config - Optional configuration, such as a JSON Schema.
  * @returns A LanguageSupport instance configured for HUML.
  *
  * @example
@@ -81,44 +74,43 @@ export const humlLanguage: LRLanguage = LRLanguage.define({
  * });
  * ```
  */
-export function huml(): LanguageSupport {
-    // Create autocomplete function
-    const autocomplete = (context: any) => humlAutocomplete(context);
-
-    // Create linter function
-    const linterFunction = (view: any) => humlLinter(view);
-
-    return new LanguageSupport(humlLanguage, [
+export function huml(config: HumlConfig = {}): LanguageSupport {
+    const { schema, lint = true, completion = true, keymap = true, folding = true, hover = true, breadcrumbs = false, outline = false, pasteJSON = false } = config;
+    const extensions: Extension[] = [
         // Configure indentation to use 2 spaces
         indentUnit.of("  "),
+    ];
+
+    if (lint) {
         // Add linting support for parse errors with squiggly underlines
         // Includes schema validation if schema is provided
-        linter(linterFunction),
-        // Add autocomplete support with Tab key to accept suggestions
+        extensions.push(humlLinter({ ...(lint === true ? {} : lint), schema }));
+    }
+    if (completion) {
         // Includes schema-based suggestions if schema is provided
-        autocompletion({ override: [autocomplete] }),
-        // Keymap: Tab accepts autocomplete when active, otherwise indents
+        extensions.push(humlCompletion({ ...(completion === true ? {} : completion), schema }));
+    }
+    if (keymap) {
+        // Tab accepts autocomplete when active, otherwise indents
         // Enter key for smart indentation
-        keymap.of([
-            {
-                key: "Tab",
-                run: (view) => {
-                    // Try to accept autocomplete first
-                    if (acceptCompletion(view)) {
-                        return true;
-                    }
-                    // Otherwise, indent with tab (2 spaces)
-                    return indentMore(view);
-                },
-            },
-            {
-                key: "Shift-Tab",
-                run: indentLess,
-            },
-            {
-                key: "Enter",
-                run: humlEnter,
-            },
-        ]),
-    ]);
-}
\ No newline at end of file
+        extensions.push(humlKeymap());
+    }
+    if (folding) {
+        extensions.push(humlFolding());
+    }
+    if (hover) {
+        // Key paths, decoded values and schema descriptions on hover
+        extensions.push(humlHover({ schema }));
+    }
+    if (breadcrumbs) {
+        extensions.push(humlBreadcrumbs());
+    }
+    if (outline) {
+        extensions.push(humlOutline());
+    }
+    if (pasteJSON) {
+        extensions.push(humlPasteJSON());
+    }
+
+    return new LanguageSupport(humlLanguage, extensions);
+}
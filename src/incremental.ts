@@ -0,0 +1,271 @@
+import { RangeSet, RangeValue, type ChangeDesc, type Text } from "@codemirror/state";
+import { NodeType, Tree, TreeBuffer } from "@lezer/common";
+import { KEYED_CONTAINERS, blockIndentation, colonSpacing, duplicateKeys, keyOf, type KeyRecord, type ValidationIssue } from "./validator";
+
+/**
+ * A range in the document
+ */
+export interface Span {
+    from: number;
+    to: number;
+}
+
+/**
+ * What the linter needs to know about a syntax tree, with positions
+ * relative to the start of the tree
+ */
+export interface TreeFacts {
+    /** Error (`⚠`) nodes */
+    errors: readonly Span[];
+    /** `BlockString` and `FoldedString` tokens */
+    multiline: readonly Span[];
+    /** Duplicate keys, colon spacing and indentation problems, as reported by `validateTree` */
+    issues: readonly ValidationIssue[];
+    /** Comments that may hold linter directives (`# huml-disable-next-line`) */
+    directives: readonly Span[];
+}
+
+/**
+ * Collect syntax errors, multiline strings, `validateTree` issues and
+ * linter directives of a tree.
+ *
+ * Results are cached per `Tree` and `TreeBuffer` object. Incremental
+ * parses reuse those objects for the parts of a document that did not
+ * change, so after an edit only the rebuilt part of the tree is walked.
+ */
+export function treeFacts(tree: Tree, doc: Text): TreeFacts {
+    return factsOf(tree, 0, doc);
+}
+
+// --- Tree facts ---
+
+interface Facts extends TreeFacts {
+    /** Keys of entries that belong to the dictionary enclosing this part of the tree */
+    keys: readonly KeyRecord[];
+}
+
+const factsCache = new WeakMap<Tree | TreeBuffer, Facts>();
+
+const MULTILINE = new Set(["BlockString", "FoldedString"]);
+
+function factsOf(node: Tree | TreeBuffer, offset: number, doc: Text): Facts {
+    let facts = factsCache.get(node);
+    if (!facts) {
+        facts = node instanceof TreeBuffer ? bufferFacts(node, offset, doc) : nodeFacts(node, offset, doc);
+        factsCache.set(node, facts);
+    }
+    return facts;
+}
+
+function nodeFacts(tree: Tree, offset: number, doc: Text): Facts {
+    const read = (from: number, to: number) => doc.sliceString(from, to);
+    const errors: Span[] = [];
+    const multiline: Span[] = [];
+    const issues: ValidationIssue[] = [];
+    const directives: Span[] = [];
+    const keys: KeyRecord[] = [];
+    const type = tree.type;
+
+    if (type.isError) errors.push({ from: 0, to: tree.length });
+    if (MULTILINE.has(type.name)) multiline.push({ from: 0, to: tree.length });
+    if (isDirective(type.name, () => read(offset, offset + tree.length))) directives.push({ from: 0, to: tree.length });
+    const spacing = colonSpacing(type.name, tree.length, read(offset + tree.length, offset + tree.length + 1));
+    if (spacing) issues.push(spacing);
+    issues.push(...blockIndentation(tree.topNode, doc, offset));
+
+    for (let i = 0; i < tree.children.length; i++) {
+        const pos = tree.positions[i]!;
+        const child = factsOf(tree.children[i]!, offset + pos, doc);
+        for (const span of child.errors) errors.push(shift(span, pos));
+        for (const span of child.multiline) multiline.push(shift(span, pos));
+        for (const issue of child.issues) issues.push(shiftIssue(issue, pos));
+        for (const span of child.directives) directives.push(shift(span, pos));
+        for (const key of child.keys) keys.push({ ...shift(key, pos), key: key.key });
+    }
+
+    // Anonymous nodes (balanced repetitions) pass their keys on to the
+    // dictionary above them; a dictionary checks the keys it collected
+    if (type.isAnonymous) return { errors, multiline, issues, directives, keys };
+    if (KEYED_CONTAINERS.has(type.name)) duplicateKeys(keys, issues);
+    const own = keyOf(tree.topNode, (from, to) => read(offset + from, offset + to));
+    return { errors, multiline, issues, directives, keys: own ? [own] : [] };
+}
+
+function bufferFacts(buffer: TreeBuffer, offset: number, doc: Text): Facts {
+    const errors: Span[] = [];
+    const multiline: Span[] = [];
+    const issues: ValidationIssue[] = [];
+    const directives: Span[] = [];
+    const keys: KeyRecord[] = [];
+    const local = (from: number, to: number) => doc.sliceString(offset + from, offset + to);
+
+    // Buffers hold complete subtrees, so dictionaries found inside are whole
+    const wrapper = new Tree(NodeType.none, [buffer], [0], buffer.length);
+    wrapper.iterate({
+        enter(node) {
+            if (node.type.isError) errors.push({ from: node.from, to: node.to });
+            if (MULTILINE.has(node.name)) multiline.push({ from: node.from, to: node.to });
+            if (isDirective(node.name, () => local(node.from, node.to))) directives.push({ from: node.from, to: node.to });
+            const spacing = colonSpacing(node.name, node.to, local(node.to, node.to + 1));
+            if (spacing) issues.push(spacing);
+            issues.push(...blockIndentation(node.node, doc, offset));
+            if (KEYED_CONTAINERS.has(node.name)) {
+                const found: KeyRecord[] = [];
+                for (let child = node.node.firstChild; child; child = child.nextSibling) {
+                    const key = keyOf(child, local);
+                    if (key) found.push(key);
+                }
+                duplicateKeys(found, issues);
+            }
+        },
+    });
+    for (let child = wrapper.topNode.firstChild; child; child = child.nextSibling) {
+        const key = keyOf(child, local);
+        if (key) keys.push(key);
+    }
+    return { errors, multiline, issues, directives, keys };
+}
+
+function isDirective(name: string, text: () => string): boolean {
+    return name === "Comment" && text().includes("huml-disable");
+}
+
+function shift<T extends Span>(span: T, by: number): Span {
+    return { from: span.from + by, to: span.to + by };
+}
+
+function shiftIssue(issue: ValidationIssue, by: number): ValidationIssue {
+    const { related, reindent } = issue;
+    return {
+        ...issue,
+        ...shift(issue, by),
+        related: related && { ...related, ...shift(related, by) },
+        reindent: reindent && { ...reindent, ...shift(reindent, by) },
+    };
+}
+
+// --- Line cache ---
+
+/**
+ * A problem found on a single line, positioned relative to the line start
+ */
+export interface LineProblem extends Span {}
+
+class ProblemMark<T> extends RangeValue {
+    constructor(readonly problem: T) {
+        super();
+    }
+}
+
+class MultilineMark extends RangeValue {}
+const multilineMark = new MultilineMark();
+
+/**
+ * Results of line-by-line checks, kept up to date across edits.
+ *
+ * Held in a state field: transactions only map the stored results and note
+ * which ranges changed; {@link LineCache.refresh} then rechecks just the
+ * lines in those ranges (and lines that moved in or out of a multiline
+ * string).
+ */
+export class LineCache<T extends LineProblem> {
+    constructor(
+        private problems: RangeSet<ProblemMark<T>> = RangeSet.empty,
+        private multiline: RangeSet<MultilineMark> = RangeSet.empty,
+        /** Ranges changed since the last refresh; `null` until the first one */
+        private dirty: Span[] | null = null,
+    ) {}
+
+    /**
+     * The cache for the document after `changes`
+     */
+    map(changes: ChangeDesc): LineCache<T> {
+        let dirty: Span[] | null = null;
+        if (this.dirty) {
+            dirty = this.dirty.map((span) => ({ from: changes.mapPos(span.from, -1), to: changes.mapPos(span.to, 1) }));
+            changes.iterChangedRanges((_fromA, _toA, fromB, toB) => dirty!.push({ from: fromB, to: toB }));
+            dirty = merge(dirty);
+        }
+        return new LineCache(this.problems.map(changes), this.multiline.map(changes), dirty);
+    }
+
+    /**
+     * Recheck the lines that changed and return every problem in the
+     * document, with absolute positions.
+     *
+     * @param multiline - Current multiline strings; their content lines are not checked.
+     * @param check - The checks for one line of text.
+     */
+    refresh(doc: Text, multiline: readonly Span[], check: (text: string) => T[]): T[] {
+        const dirty = this.dirty ? [...this.dirty, ...changedMultiline(this.multiline, multiline)] : [{ from: 0, to: doc.length }];
+
+        let problems = this.problems;
+        const added: ReturnType<ProblemMark<T>["range"]>[] = [];
+        let m = 0;
+        for (const span of merge(dirty)) {
+            const first = doc.lineAt(Math.min(span.from, doc.length));
+            const last = doc.lineAt(Math.min(span.to, doc.length));
+            problems = problems.update({
+                filterFrom: first.from,
+                filterTo: last.to,
+                filter: (from) => from < first.from || from > last.to,
+            });
+            for (let n = first.number; n <= last.number; n++) {
+                const line = doc.line(n);
+                while (m < multiline.length && multiline[m]!.to < line.from) m++;
+                const string = multiline[m];
+                if (string && line.from > string.from && line.from <= string.to) continue;
+                for (const problem of check(line.text)) {
+                    const from = line.from + problem.from;
+                    added.push(new ProblemMark(problem).range(from, line.from + problem.to));
+                }
+            }
+        }
+
+        this.problems = problems.update({ add: added, sort: true });
+        this.multiline = RangeSet.of(multiline.map((span) => multilineMark.range(span.from, span.to)));
+        this.dirty = [];
+
+        const result: T[] = [];
+        for (let iter = this.problems.iter(); iter.value; iter.next()) {
+            result.push({ ...iter.value.problem, from: iter.from, to: iter.to });
+        }
+        return result;
+    }
+}
+
+// Multiline strings that appeared, disappeared or changed extent since the last refresh
+function changedMultiline(before: RangeSet<MultilineMark>, now: readonly Span[]): Span[] {
+    const old: Span[] = [];
+    for (let iter = before.iter(); iter.value; iter.next()) old.push({ from: iter.from, to: iter.to });
+
+    const changed: Span[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < old.length || j < now.length) {
+        const a = old[i];
+        const b = now[j];
+        if (a && b && a.from === b.from && a.to === b.to) {
+            i++;
+            j++;
+        } else if (b && (!a || b.from <= a.from)) {
+            changed.push(b);
+            j++;
+        } else {
+            changed.push(a!);
+            i++;
+        }
+    }
+    return changed;
+}
+
+function merge(spans: Span[]): Span[] {
+    const sorted = [...spans].sort((a, b) => a.from - b.from);
+    const result: Span[] = [];
+    for (const span of sorted) {
+        const last = result[result.length - 1];
+        if (last && span.from <= last.to + 1) last.to = Math.max(last.to, span.to);
+        else result.push({ ...span });
+    }
+    return result;
+}
@@ -1,5 +1,10 @@
+import { acceptCompletion } from "@codemirror/autocomplete";
+import { indentLess, indentMore } from "@codemirror/commands";
 import { syntaxTree, TreeIndentContext } from "@codemirror/language";
-import { EditorView } from "@codemirror/view";
+import { Prec, type Extension } from "@codemirror/state";
+import { EditorView, keymap } from "@codemirror/view";
+import { formatHuml } from "./format";
+import { deleteEntry, duplicateEntry, indentEntry, moveEntryDown, moveEntryUp, outdentEntry } from "./structure";
 
 /**
  * Custom indentation function for HUML
@@ -127,3 +132,54 @@ export function humlEnter(view: EditorView): boolean {
 
     return true;
 }
+
+/**
+ * The HUML keymap as a standalone extension.
+ *
+ * Tab accepts an active completion or indents, Shift-Tab dedents,
+ * Enter inserts a newline with smart indentation and Shift-Alt-f formats
+ * the document.
+ *
+ * The line commands of the default keymap act on whole entries instead
+ * when the cursor is on a property or list item: Alt-Up/Down move it,
+ * Shift-Alt-Down duplicates it, Shift-Mod-k deletes it and Mod-]/Mod-[
+ * indent and outdent it with its nested block.
+ */
+export function humlKeymap(): Extension {
+    return [
+        keymap.of([
+            {
+                key: "Tab",
+                run: (view) => {
+                    // Try to accept autocomplete first
+                    if (acceptCompletion(view)) {
+                        return true;
+                    }
+                    // Otherwise, indent with tab (2 spaces)
+                    return indentMore(view);
+                },
+            },
+            {
+                key: "Shift-Tab",
+                run: indentLess,
+            },
+            {
+                key: "Enter",
+                run: humlEnter,
+            },
+            {
+                key: "Shift-Alt-f",
+                run: formatHuml,
+            },
+        ]),
+        // Entry commands take precedence over the default line commands
+        Prec.high(keymap.of([
+            { key: "Alt-ArrowUp", run: moveEntryUp },
+            { key: "Alt-ArrowDown", run: moveEntryDown },
+            { key: "Shift-Alt-ArrowDown", run: duplicateEntry },
+            { key: "Shift-Mod-k", run: deleteEntry },
+            { key: "Mod-]", run: indentEntry },
+            { key: "Mod-[", run: outdentEntry },
+        ])),
+    ];
+}
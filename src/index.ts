@@ -1,3 +1,22 @@
-export { huml, humlLanguage } from "./huml";
+export { huml, humlLanguage, type HumlConfig } from "./huml";
+export { humlCompletion, type HumlCompletionOptions } from "./autocomplete";
+export { humlBreadcrumbs, pathAt } from "./breadcrumbs";
+export { fixAllHuml, humlDiagnostics, humlLinter, type HumlLintOptions } from "./diagnostics";
+export { foldSummary, foldToDepth, humlFolding, unfoldToCursor } from "./fold";
+export { format, formatHuml, type FormatOptions } from "./format";
+export { humlHover, type HumlHoverOptions } from "./hover";
+export { humlKeymap } from "./indent";
+export { humlPasteJSON } from "./paste";
+export { humlSnippets, type HumlSnippet } from "./snippets";
+export { deleteEntry, duplicateEntry, indentEntry, moveEntryDown, moveEntryUp, outdentEntry } from "./structure";
+export type { LineEnding } from "./newlines";
+export { humlLintRules, type HumlLintRule, type RuleSetting } from "./rules";
+export { humlDarkHighlightStyle, humlDarkTheme, humlHighlightStyle, humlLightTheme, type HumlThemeOptions } from "./theme";
+export { documentSymbols, humlOutline, symbolAt, type DocumentSymbol, type SymbolKind } from "./outline";
 export { parser } from "./huml-parser-typed";
-
+export { decode, decodeNode, decodeTree, HumlParseError, parse, type DecodeOptions, type HumlValue } from "./decoder";
+export { encode, stringify, type StringifyOptions } from "./encoder";
+export { HumlDocument, type TextEdit } from "./document";
+export type { HumlPath } from "./navigation";
+export { schemasAt, validateSchema, type JsonSchema, type JsonSchemaType } from "./schema";
+export type { ValidationIssue } from "./validator";
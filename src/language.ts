@@ -0,0 +1,63 @@
+import { LRLanguage, TreeIndentContext, foldNodeProp, indentNodeProp } from "@codemirror/language";
+import { styleTags, tags } from "@lezer/highlight";
+import { LRParser } from "@lezer/lr";
+import { parser } from "./huml-parser-typed";
+import { humlIndent } from "./indent";
+import { contentEnd } from "./navigation";
+
+// Ensure tags is available - this helps with module resolution issues
+// This check is performed once at module load time for stability
+if (!tags || typeof tags !== 'object') {
+    throw new Error('Failed to import tags from @lezer/highlight');
+}
+
+const parserWithMetadata: LRParser = parser.configure({
+    props: [
+        styleTags({
+            Key: tags.propertyName,    // Should be orange-ish in One Dark
+            // Quoted keys are keys, not string values
+            "Property/String DictPair/String": tags.propertyName,
+            String: tags.string,       // Should be green
+            BlockString: tags.string,  // Also green
+            FoldedString: tags.string, // Also green
+            Number: tags.number,       // Should be orange/yellow
+            SpecialNumber: tags.special(tags.number),
+            Boolean: tags.bool,        // Should be cyan
+            Null: tags.null,
+            Comment: tags.lineComment, // Should be grey italic
+            "%HUML": tags.processingInstruction,
+            VersionString: tags.literal,
+            ListMark: tags.punctuation,
+            Block: tags.meta,
+            ":": tags.punctuation,
+            "::": tags.punctuation,
+            ",": tags.separator,
+            "[ ] EmptyList": tags.squareBracket,
+            "{ } EmptyDict": tags.brace
+        }),
+        indentNodeProp.add((type) => {
+            // Use custom indentation function for smart indentation
+            return (context: TreeIndentContext) => humlIndent(context);
+        }),
+        foldNodeProp.add({
+            // A block starts with the newline ending the line that opens it,
+            // so it folds from the end of that line
+            Block: (node) => ({ from: node.from, to: contentEnd(node) })
+        })
+    ]
+});
+
+/**
+ * The LRLanguage definition for HUML.
+ *
+ * This object defines the parser and language data (such as comment tokens)
+ * for the HUML language. It is used internally by the `huml()` function
+ * but can also be used directly if you need to configure the language
+ * support manually.
+ */
+export const humlLanguage: LRLanguage = LRLanguage.define({
+    parser: parserWithMetadata,
+    languageData: {
+        commentTokens: { line: "#" }
+    }
+});
@@ -0,0 +1,215 @@
+import { syntaxTree } from "@codemirror/language";
+import type { EditorState } from "@codemirror/state";
+import type { SyntaxNode, Tree } from "@lezer/common";
+import { decodeKey } from "./scalars";
+
+/**
+ * A path into a HUML document: dictionary keys and list indexes
+ */
+export type HumlPath = readonly (string | number)[];
+
+/**
+ * Reads the source text between two positions, e.g.
+ * `(from, to) => state.sliceDoc(from, to)`
+ */
+export type TextReader = (from: number, to: number) => string;
+
+/**
+ * One key/value pair of a dictionary or one item of a list
+ */
+export interface Entry {
+    /** The Property, DictPair, ListItem or inline Scalar */
+    node: SyntaxNode;
+    /** The decoded key, for dictionary entries */
+    key?: string;
+    /** The Key or String node naming a dictionary entry */
+    keyNode?: SyntaxNode;
+    /** The unwrapped value: a container or a scalar token */
+    value: SyntaxNode;
+}
+
+export const DICT_CONTAINERS: ReadonlySet<string> = new Set(["Properties", "DictBlockContent", "InlineDict", "RootInlineDict", "EmptyDict"]);
+export const LIST_CONTAINERS: ReadonlySet<string> = new Set(["RootListItems", "ListBlockContent", "InlineList", "RootInlineList", "EmptyList"]);
+export const BLOCK_CONTAINERS: ReadonlySet<string> = new Set(["Properties", "DictBlockContent", "RootListItems", "ListBlockContent"]);
+
+const WRAPPERS = new Set(["ExclusiveRootValue", "RootScalar", "Scalar", "Collection", "Block"]);
+const SKIP = new Set([
+    "Filler", "Separator", "Space", "Comment", "Newline", "Indent", "Dedent",
+    ":", "::", ",", "[", "]", "ListMark", "Key",
+]);
+const TRAILING = new Set(["Filler", "Separator", "Newline", "Dedent"]);
+
+/**
+ * The node holding the value of a Property, DictPair, ListItem or wrapper
+ * node: its last child that is not punctuation, whitespace or a comment
+ */
+export function valueChild(node: SyntaxNode): SyntaxNode {
+    let child = node.lastChild;
+    while (child && SKIP.has(child.name)) child = child.prevSibling;
+    return child ?? node;
+}
+
+/**
+ * Unwrap Scalar, Collection, Block and root wrappers down to a container
+ * (`DictBlockContent`, `InlineList`, ...) or a scalar token (`String`, `Number`, ...)
+ */
+export function unwrapValue(node: SyntaxNode): SyntaxNode {
+    while (WRAPPERS.has(node.name)) {
+        const inner = valueChild(node);
+        if (inner === node) break;
+        node = inner;
+    }
+    return node;
+}
+
+/**
+ * The unwrapped root value of a document, or `null` for an empty document
+ */
+export function rootValue(tree: Tree): SyntaxNode | null {
+    const top = tree.topNode;
+    const body = top.getChild("Properties") ?? top.getChild("RootListItems") ?? top.getChild("ExclusiveRootValue");
+    return body ? unwrapValue(body) : null;
+}
+
+/**
+ * The entries of a dictionary or list container, in document order
+ */
+export function entriesOf(container: SyntaxNode, read: TextReader): Entry[] {
+    const result: Entry[] = [];
+    for (let child = container.firstChild; child; child = child.nextSibling) {
+        switch (child.name) {
+            case "Property":
+            case "DictPair": {
+                const keyNode = child.firstChild!;
+                const key = decodeKey(read(keyNode.from, keyNode.to));
+                result.push({ node: child, key, keyNode, value: unwrapValue(valueChild(child)) });
+                break;
+            }
+            case "RootListItem": {
+                const item = child.getChild("ListItem");
+                if (item) result.push({ node: item, value: unwrapValue(valueChild(item)) });
+                break;
+            }
+            case "ListItem":
+                result.push({ node: child, value: unwrapValue(valueChild(child)) });
+                break;
+            case "Scalar":
+                result.push({ node: child, value: unwrapValue(child) });
+                break;
+        }
+    }
+    return result;
+}
+
+/**
+ * End of the last meaningful token in a node, ignoring trailing blank lines
+ * and comments that the grammar folds into nested blocks
+ */
+export function contentEnd(node: SyntaxNode): number {
+    let last = node.lastChild;
+    while (last && TRAILING.has(last.name)) last = last.prevSibling;
+    if (!last) return node.to;
+    return last.firstChild ? contentEnd(last) : last.to;
+}
+
+/**
+ * Whether `node` names a dictionary entry: a `Key`, or a `String` in key position
+ */
+export function isKeyNode(node: SyntaxNode): boolean {
+    if (node.name === "Key") return true;
+    return node.name === "String"
+        && (node.parent?.name === "Property" || node.parent?.name === "DictPair")
+        && node.parent.firstChild?.from === node.from;
+}
+
+/**
+ * Write a path the way it reads in JavaScript, e.g. `server.listeners[2].port`.
+ * Keys that are not bare HUML keys are quoted: `labels["app/name"]`.
+ */
+export function formatPath(path: HumlPath): string {
+    return path.map((segment, i) => {
+        if (typeof segment === "number") return `[${segment}]`;
+        if (!BARE_KEY.test(segment)) return `[${JSON.stringify(segment)}]`;
+        return i === 0 ? segment : `.${segment}`;
+    }).join("");
+}
+
+const BARE_KEY = /^[A-Za-z_][A-Za-z0-9_-]*$/;
+
+/**
+ * One entry enclosing a node: its segment in the path and the node naming it
+ * (the key of a dictionary entry, the `ListItem` or `Scalar` of a list item)
+ */
+export interface PathStep {
+    segment: string | number;
+    node: SyntaxNode;
+}
+
+/**
+ * The entries enclosing `node`, outermost first.
+ *
+ * For a node inside `server::` → `listeners::` → second item the segments
+ * are `"server"`, `"listeners"` and `1`.
+ */
+export function stepsOfNode(node: SyntaxNode, read: TextReader): PathStep[] {
+    const steps: PathStep[] = [];
+    for (let cur: SyntaxNode | null = node; cur; cur = cur.parent) {
+        if (cur.name === "Property" || cur.name === "DictPair") {
+            const keyNode = cur.firstChild;
+            if (keyNode && (keyNode.name === "Key" || keyNode.name === "String")) {
+                steps.unshift({ segment: decodeKey(read(keyNode.from, keyNode.to)), node: keyNode });
+            }
+        } else if (cur.name === "ListItem") {
+            steps.unshift({ segment: siblingIndex(cur.parent?.name === "RootListItem" ? cur.parent : cur), node: cur });
+        } else if (cur.name === "Scalar" && (cur.parent?.name === "InlineList" || cur.parent?.name === "RootInlineList")) {
+            steps.unshift({ segment: siblingIndex(cur), node: cur });
+        }
+    }
+    return steps;
+}
+
+/**
+ * The path of the innermost entry containing `node`.
+ *
+ * For a node inside `server::` → `listeners::` → second item this is
+ * `["server", "listeners", 1]`.
+ */
+export function pathOfNode(node: SyntaxNode, read: TextReader): (string | number)[] {
+    return stepsOfNode(node, read).map((step) => step.segment);
+}
+
+/**
+ * The block dictionary whose keys sit at column `indent` on the line at
+ * `pos`: its path and the keys it already has. A fresh block that does not
+ * parse yet is found through the `key::` line above it.
+ */
+export function dictAt(state: EditorState, pos: number, indent: number): { path: HumlPath; keys: string[] } | null {
+    const read: TextReader = (from, to) => state.sliceDoc(from, to);
+    for (let node: SyntaxNode | null = syntaxTree(state).resolveInner(pos, -1); node; node = node.parent) {
+        if (node.name !== "DictBlockContent" && node.name !== "Properties") continue;
+        const entries = entriesOf(node, read);
+        const first = entries[0];
+        const column = first ? first.node.from - state.doc.lineAt(first.node.from).from : 0;
+        if (column !== indent) continue;
+        return { path: pathOfNode(node, read), keys: entries.map((entry) => entry.key!) };
+    }
+
+    // A fresh block that does not parse yet: use the nearest `key::` line above
+    for (let n = state.doc.lineAt(pos).number - 1; n >= 1; n--) {
+        const line = state.doc.line(n);
+        const lineIndent = line.text.length - line.text.trimStart().length;
+        if (line.text.trim() === "" || lineIndent >= indent) continue;
+        if (lineIndent + 2 !== indent || !line.text.trimEnd().endsWith("::")) return null;
+        const owner = syntaxTree(state).resolveInner(line.from + lineIndent, 1);
+        return { path: pathOfNode(owner, read), keys: [] };
+    }
+    return indent === 0 ? { path: [], keys: [] } : null;
+}
+
+function siblingIndex(node: SyntaxNode): number {
+    let index = 0;
+    for (let sibling = node.prevSibling; sibling; sibling = sibling.prevSibling) {
+        if (sibling.name === node.name) index++;
+    }
+    return index;
+}
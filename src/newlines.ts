@@ -0,0 +1,31 @@
+/**
+ * How line breaks are written: `"lf"` (`\n`), `"crlf"` (`\r\n`), or
+ * `"preserve"` to keep the ones of the source text
+ */
+export type LineEnding = "lf" | "crlf" | "preserve";
+
+/**
+ * The byte order mark some editors put at the start of UTF-8 files
+ */
+export const BOM = "\uFEFF";
+
+/**
+ * The line break most lines of `text` end with; `"lf"` for a tie or a
+ * single-line text
+ */
+export function detectLineEnding(text: string): "lf" | "crlf" {
+    let crlf = 0;
+    let lf = 0;
+    for (let i = text.indexOf("\n"); i >= 0; i = text.indexOf("\n", i + 1)) {
+        if (text.charCodeAt(i - 1) === 13) crlf++;
+        else lf++;
+    }
+    return crlf > lf ? "crlf" : "lf";
+}
+
+/**
+ * The characters of a line break
+ */
+export function lineBreak(ending: "lf" | "crlf"): string {
+    return ending === "crlf" ? "\r\n" : "\n";
+}
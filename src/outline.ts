@@ -0,0 +1,214 @@
+import { syntaxTree } from "@codemirror/language";
+import type { ChangeSet, EditorState, Extension } from "@codemirror/state";
+import { EditorView, showPanel, type Panel } from "@codemirror/view";
+import type { SyntaxNode, Tree } from "@lezer/common";
+import { DICT_CONTAINERS, LIST_CONTAINERS, contentEnd, entriesOf, rootValue, type TextReader } from "./navigation";
+
+export type SymbolKind = "dict" | "list" | "string" | "number" | "boolean" | "null";
+
+/**
+ * One entry of a document outline: a dictionary key or a list item
+ */
+export interface DocumentSymbol {
+    /** The decoded key, or `[index]` for list items */
+    name: string;
+    /** What the entry holds */
+    kind: SymbolKind;
+    /** Start of the whole entry, including its nested block */
+    from: number;
+    /** End of the whole entry, excluding trailing blank lines and comments */
+    to: number;
+    /** Start of the part to select when jumping to the entry: its key or list mark */
+    selectionFrom: number;
+    /** End of the part to select when jumping to the entry */
+    selectionTo: number;
+    /** Entries of a dictionary or list value */
+    children: DocumentSymbol[];
+}
+
+/**
+ * Build the outline of a HUML document: its keys and list items, nested
+ * the way they are in the document.
+ *
+ * A document whose root is a single scalar has no symbols.
+ *
+ * @param tree - The parsed document, e.g. `syntaxTree(state)`.
+ * @param text - The document text.
+ * @returns The top-level symbols.
+ *
+ * @example
+ * ```typescript
+ * import { documentSymbols, parser } from "@nayanvr/lang-huml";
+ *
+ * const text = "server::\n  port: 80\n";
+ * documentSymbols(parser.parse(text), text);
+ * // => [{ name: "server", kind: "dict", children: [{ name: "port", kind: "number", ... }], ... }]
+ * ```
+ */
+export function documentSymbols(tree: Tree, text: string): DocumentSymbol[] {
+    return symbolsIn(tree, (from, to) => text.slice(from, to));
+}
+
+/**
+ * The innermost symbol whose range contains `pos`, or `null`
+ */
+export function symbolAt(symbols: readonly DocumentSymbol[], pos: number): DocumentSymbol | null {
+    for (const symbol of symbols) {
+        if (pos >= symbol.from && pos <= symbol.to) return symbolAt(symbol.children, pos) ?? symbol;
+    }
+    return null;
+}
+
+/**
+ * A panel below the editor showing the document outline.
+ * The symbol at the cursor is highlighted; clicking a symbol selects its key.
+ * The outline is rebuilt once the document has not changed for a moment.
+ */
+export function humlOutline(): Extension {
+    return [showPanel.of(createPanel), outlineTheme];
+}
+
+// --- Helpers ---
+
+// How long the document must stay unchanged before the outline is rebuilt, in milliseconds
+const REBUILD_DELAY = 300;
+
+function symbolsIn(tree: Tree, read: TextReader): DocumentSymbol[] {
+    const root = rootValue(tree);
+    return root ? symbolsOf(root, read) : [];
+}
+
+function symbolsOf(container: SyntaxNode, read: TextReader): DocumentSymbol[] {
+    if (!DICT_CONTAINERS.has(container.name) && !LIST_CONTAINERS.has(container.name)) return [];
+
+    const symbols: DocumentSymbol[] = [];
+    entriesOf(container, read).forEach((entry, index) => {
+        const kind = kindOf(entry.value);
+        if (!kind) return;
+        const selection = entry.keyNode ?? entry.node.getChild("ListMark") ?? entry.node;
+        symbols.push({
+            name: entry.key ?? `[${index}]`,
+            kind,
+            from: entry.node.from,
+            to: contentEnd(entry.node),
+            selectionFrom: selection.from,
+            selectionTo: selection.to,
+            children: symbolsOf(entry.value, read),
+        });
+    });
+    return symbols;
+}
+
+function kindOf(value: SyntaxNode): SymbolKind | null {
+    if (DICT_CONTAINERS.has(value.name)) return "dict";
+    if (LIST_CONTAINERS.has(value.name)) return "list";
+    switch (value.name) {
+        case "String":
+        case "BlockString":
+        case "FoldedString":
+            return "string";
+        case "Number":
+        case "SpecialNumber":
+            return "number";
+        case "Boolean":
+            return "boolean";
+        case "Null":
+            return "null";
+    }
+    return null;
+}
+
+function createPanel(view: EditorView): Panel {
+    const dom = document.createElement("nav");
+    dom.className = "cm-huml-outline";
+    dom.setAttribute("aria-label", "Document outline");
+
+    let symbols: DocumentSymbol[] = [];
+    let items = new Map<DocumentSymbol, HTMLElement>();
+    let active: HTMLElement | null = null;
+    // Changes made since the symbols were computed, while a rebuild is pending
+    let pending: ChangeSet | null = null;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const renderList = (list: DocumentSymbol[]): HTMLElement => {
+        const ul = document.createElement("ul");
+        for (const symbol of list) {
+            const li = ul.appendChild(document.createElement("li"));
+            const button = li.appendChild(document.createElement("button"));
+            button.type = "button";
+            button.className = `cm-huml-outline-item cm-huml-outline-${symbol.kind}`;
+            button.textContent = symbol.name;
+            button.title = symbol.kind;
+            button.addEventListener("click", () => {
+                const map = (pos: number, assoc: -1 | 1) => pending ? pending.mapPos(pos, assoc) : pos;
+                view.dispatch({ selection: { anchor: map(symbol.selectionFrom, 1), head: map(symbol.selectionTo, -1) }, scrollIntoView: true });
+                view.focus();
+            });
+            items.set(symbol, button);
+            if (symbol.children.length > 0) li.appendChild(renderList(symbol.children));
+        }
+        return ul;
+    };
+
+    const render = (state: EditorState) => {
+        symbols = symbolsIn(syntaxTree(state), (from, to) => state.sliceDoc(from, to));
+        pending = null;
+        items = new Map();
+        active = null;
+        dom.textContent = "";
+        dom.appendChild(renderList(symbols));
+        highlight(state);
+    };
+
+    const highlight = (state: EditorState) => {
+        const current = symbolAt(symbols, state.selection.main.head);
+        const item = current ? items.get(current) ?? null : null;
+        if (item === active) return;
+        active?.classList.remove("cm-huml-outline-active");
+        item?.classList.add("cm-huml-outline-active");
+        active = item;
+    };
+
+    render(view.state);
+
+    return {
+        dom,
+        update(update) {
+            if (update.docChanged || syntaxTree(update.state) !== syntaxTree(update.startState)) {
+                if (update.docChanged) pending = pending ? pending.compose(update.changes) : update.changes;
+                clearTimeout(timer);
+                timer = setTimeout(() => render(view.state), REBUILD_DELAY);
+            } else if (update.selectionSet && !pending) {
+                highlight(update.state);
+            }
+        },
+        destroy() {
+            clearTimeout(timer);
+        },
+    };
+}
+
+const outlineTheme = EditorView.baseTheme({
+    ".cm-huml-outline": {
+        maxHeight: "12em",
+        overflow: "auto",
+        padding: "2px 6px",
+        fontFamily: "monospace",
+    },
+    ".cm-huml-outline ul": {
+        listStyle: "none",
+        margin: "0",
+        paddingLeft: "1em",
+    },
+    ".cm-huml-outline-item": {
+        font: "inherit",
+        background: "none",
+        border: "none",
+        padding: "0",
+        cursor: "pointer",
+    },
+    ".cm-huml-outline-active": {
+        fontWeight: "bold",
+        textDecoration: "underline",
+    },
+});
@@ -0,0 +1,128 @@
+import { isolateHistory } from "@codemirror/commands";
+import { getIndentation } from "@codemirror/language";
+import type { EditorState, Extension } from "@codemirror/state";
+import { EditorView } from "@codemirror/view";
+import { encodeListItem, encodePropertyValue, stringify, type StringifyOptions } from "./encoder";
+
+/**
+ * Convert JSON objects and arrays pasted into the editor to HUML.
+ *
+ * The paste is first inserted as is, then converted in a separate history
+ * step, so undo right after the conversion brings back the raw JSON.
+ * Pastes that are not JSON, or that land in the middle of a line, are
+ * left to the default handling.
+ */
+export function humlPasteJSON(options: StringifyOptions = {}): Extension {
+    return EditorView.domEventHandlers({
+        paste(event, view) {
+            const text = event.clipboardData?.getData("text/plain");
+            if (!text || view.state.selection.ranges.length > 1) return false;
+
+            const { from, to } = view.state.selection.main;
+            const replacement = pastedJSONAsHuml(view.state, from, to, text, options);
+            if (!replacement) return false;
+            event.preventDefault();
+
+            view.dispatch({
+                changes: { from, to, insert: text },
+                selection: { anchor: from + text.length },
+                userEvent: "input.paste",
+                scrollIntoView: true,
+            });
+            view.dispatch({
+                changes: { from: replacement.from, to: from + text.length, insert: replacement.insert },
+                selection: { anchor: replacement.from + replacement.insert.length },
+                userEvent: "input.paste",
+                annotations: isolateHistory.of("before"),
+                scrollIntoView: true,
+            });
+            return true;
+        },
+    });
+}
+
+/**
+ * The HUML to put in place of JSON pasted over `from`-`to`, or `null` when
+ * the text is not a non-empty JSON object or array or the position does
+ * not take a value.
+ *
+ * The replacement starts at `from` or earlier: after `key:` or `- ` it
+ * takes over the separator so the value can become a block.
+ */
+export function pastedJSONAsHuml(
+    state: EditorState,
+    from: number,
+    to: number,
+    text: string,
+    options: StringifyOptions = {}
+): { from: number; insert: string } | null {
+    const trimmed = text.trim();
+    if (!trimmed.startsWith("{") && !trimmed.startsWith("[")) return null;
+    let value: unknown;
+    try {
+        value = JSON.parse(trimmed);
+    } catch {
+        return null;
+    }
+    if (value === null || typeof value !== "object" || Object.keys(value).length === 0) return null;
+
+    const line = state.doc.lineAt(from);
+    if (state.sliceDoc(to, state.doc.lineAt(to).to).trim() !== "") return null;
+    const before = state.sliceDoc(line.from, from);
+    const lineIndent = /^ */.exec(line.text)![0];
+
+    // The value of a key: `key:` or `key::`
+    const property = /^(\s*(?:"(?:[^"\\]|\\.)*"|[A-Za-z_][A-Za-z0-9_-]*))::?[ \t]*$/.exec(before);
+    if (property) {
+        return { from: line.from + property[1]!.length, insert: encodePropertyValue(value, lineIndent, options) };
+    }
+
+    // A list item: `-` or `- ::`
+    const item = /^(\s*)-(?:[ \t]+::)?[ \t]*$/.exec(before);
+    if (item) {
+        return { from: line.from + item[1]!.length, insert: encodeListItem(value, lineIndent, options) };
+    }
+
+    // A line of its own: a block at the indentation a new line gets here,
+    // written as list items among list items and as properties among properties
+    if (before.trim() === "") {
+        const indent = " ".repeat(blockIndent(state, line.number) ?? before.length);
+        const kind = siblingKind(state, line.number, indent.length);
+        if (kind === "list") {
+            const items = Array.isArray(value) ? value : [value];
+            return { from: line.from, insert: items.map((item) => indent + encodeListItem(item, indent, options)).join("\n") };
+        }
+        if (kind === "dict" && Array.isArray(value)) return null;
+        const block = stringify(value, options).trimEnd().split("\n")
+            .map((text) => text ? indent + text : text)
+            .join("\n");
+        return { from: line.from, insert: block };
+    }
+    return null;
+}
+
+// The indentation `humlIndent` gives a line opened after the nearest
+// non-blank line above `lineNumber`
+function blockIndent(state: EditorState, lineNumber: number): number | null {
+    for (let n = lineNumber - 1; n >= 1; n--) {
+        const above = state.doc.line(n);
+        if (above.text.trim()) return getIndentation(state, above.to);
+    }
+    return 0;
+}
+
+// Whether the entries around line `lineNumber` at column `indent` are list
+// items or properties, or `null` when the block has no other entries
+function siblingKind(state: EditorState, lineNumber: number, indent: number): "list" | "dict" | null {
+    for (const dir of [-1, 1]) {
+        for (let n = lineNumber + dir; n >= 1 && n <= state.doc.lines; n += dir) {
+            const text = state.doc.line(n).text;
+            const trimmed = text.trimStart();
+            if (!trimmed || trimmed.startsWith("#")) continue;
+            const column = text.length - trimmed.length;
+            if (column < indent) break;
+            if (column === indent) return /^-(\s|$)/.test(trimmed) ? "list" : "dict";
+        }
+    }
+    return null;
+}
@@ -0,0 +1,98 @@
+import type { Diagnostic } from "@codemirror/lint";
+
+/**
+ * How a lint rule reports its findings. `"warn"` is short for `"warning"`;
+ * `"off"` disables the rule.
+ */
+export type RuleSetting = Diagnostic["severity"] | "warn" | "off";
+
+/**
+ * A built-in lint rule
+ */
+export interface HumlLintRule {
+    /** Stable code, also used as the diagnostic's `source` */
+    code: string;
+    /** What the rule reports */
+    description: string;
+    /** Severity used when the configuration does not name the rule; `"off"` for opt-in rules */
+    severity: Diagnostic["severity"] | "off";
+}
+
+/**
+ * Every rule the HUML linter runs, with its default severity.
+ *
+ * Rules are configured by code through the `rules` lint option, e.g.
+ * `{ "huml/trailing-whitespace": "off", "huml/duplicate-key": "warn" }`.
+ */
+export const humlLintRules: readonly HumlLintRule[] = [
+    { code: "huml/syntax", description: "Text the parser cannot read", severity: "error" },
+    { code: "huml/space-after-colon", description: "`:` not followed by a space", severity: "error" },
+    { code: "huml/space-after-double-colon", description: "`::` not followed by a space", severity: "error" },
+    { code: "huml/tab-indent", description: "Indentation containing tabs", severity: "error" },
+    { code: "huml/indentation", description: "Block not indented 2 spaces deeper than its parent, or a line not aligned with its block", severity: "error" },
+    { code: "huml/trailing-whitespace", description: "Whitespace at the end of a line", severity: "warning" },
+    { code: "huml/mixed-line-endings", description: "Line break differing from the one most lines use (CRLF vs LF)", severity: "off" },
+    { code: "huml/unterminated-string", description: "String missing its closing quote", severity: "error" },
+    { code: "huml/reserved-key", description: "Unquoted `true`, `false`, `null`, `nan` or `inf` used as a key", severity: "error" },
+    { code: "huml/duplicate-key", description: "Key repeated in the same dictionary", severity: "error" },
+    { code: "huml/schema-type", description: "Value of the wrong type for the schema", severity: "error" },
+    { code: "huml/schema-enum", description: "Value not among the schema's `enum`", severity: "error" },
+    { code: "huml/schema-pattern", description: "String not matching the schema's `pattern`", severity: "error" },
+    { code: "huml/schema-length", description: "String length outside the schema's bounds", severity: "error" },
+    { code: "huml/schema-range", description: "Number outside the schema's bounds", severity: "error" },
+    { code: "huml/schema-items", description: "List length outside the schema's bounds", severity: "error" },
+    { code: "huml/schema-required", description: "Required key missing", severity: "error" },
+    { code: "huml/schema-additional-property", description: "Key not allowed by the schema", severity: "error" },
+    { code: "huml/schema-one-of", description: "Value matching none or several of the schema's `oneOf` branches", severity: "error" },
+];
+
+const defaults = new Map(humlLintRules.map((rule) => [rule.code, rule.severity]));
+
+/**
+ * The severity a diagnostic with `code` gets under `rules`, or `null` when
+ * the rule is turned off
+ */
+export function ruleSeverity(
+    code: string,
+    rules: Record<string, RuleSetting> = {},
+    fallback: Diagnostic["severity"] = "error"
+): Diagnostic["severity"] | null {
+    const setting = rules[code] ?? defaults.get(code) ?? fallback;
+    if (setting === "off") return null;
+    return setting === "warn" ? "warning" : setting;
+}
+
+/**
+ * Lines whose diagnostics are suppressed by `# huml-disable-next-line` comments
+ */
+export class Suppressions {
+    /** Line number to the codes suppressed on it; an empty set suppresses every rule */
+    private lines = new Map<number, Set<string>>();
+
+    /**
+     * Record a comment. Ignores comments that are not a suppression.
+     *
+     * @param text - The comment, including the leading `#`.
+     * @param line - The number of the line the comment is on.
+     */
+    add(text: string, line: number): void {
+        const match = /^#\s*huml-disable-next-line(?:\s+(.*))?$/.exec(text.trim());
+        if (!match) return;
+        const codes = (match[1] ?? "").split(/[\s,]+/).filter(Boolean);
+        const existing = this.lines.get(line + 1);
+        if (existing?.size === 0) return;
+        if (codes.length === 0 || existing === undefined) {
+            this.lines.set(line + 1, new Set(codes));
+        } else {
+            for (const code of codes) existing.add(code);
+        }
+    }
+
+    /**
+     * Whether a diagnostic with `code` starting on `line` is suppressed
+     */
+    has(line: number, code: string): boolean {
+        const codes = this.lines.get(line);
+        return codes !== undefined && (codes.size === 0 || codes.has(code));
+    }
+}
@@ -0,0 +1,65 @@
+/**
+ * Decode the text of a quoted key (`"a b"`) or a bare key (`a`) into its name
+ */
+export function decodeKey(text: string): string {
+    return text.startsWith('"') ? decodeString(text) : text;
+}
+
+/**
+ * Decode a double-quoted HUML string literal, resolving escape sequences
+ */
+export function decodeString(literal: string): string {
+    const body = literal.slice(1, -1);
+    if (body.indexOf("\\") < 0) return body;
+
+    let result = "";
+    for (let i = 0; i < body.length; i++) {
+        const ch = body[i];
+        if (ch !== "\\") {
+            result += ch;
+            continue;
+        }
+        const esc = body[++i];
+        switch (esc) {
+            case "n": result += "\n"; break;
+            case "t": result += "\t"; break;
+            case "r": result += "\r"; break;
+            case "b": result += "\b"; break;
+            case "f": result += "\f"; break;
+            case "u":
+                result += String.fromCharCode(parseInt(body.slice(i + 1, i + 5), 16));
+                i += 4;
+                break;
+            // \" \\ \/ stand for themselves
+            default: result += esc ?? ""; break;
+        }
+    }
+    return result;
+}
+
+/**
+ * Decode a HUML number literal (decimal, float, hex, octal or binary,
+ * optionally signed and with `_` separators)
+ */
+export function decodeNumber(literal: string): number {
+    let text = literal.replace(/_/g, "");
+    let sign = 1;
+    if (text[0] === "+" || text[0] === "-") {
+        if (text[0] === "-") sign = -1;
+        text = text.slice(1);
+    }
+
+    const prefix = text.slice(0, 2).toLowerCase();
+    if (prefix === "0x") return sign * parseInt(text.slice(2), 16);
+    if (prefix === "0o") return sign * parseInt(text.slice(2), 8);
+    if (prefix === "0b") return sign * parseInt(text.slice(2), 2);
+    return sign * Number(text);
+}
+
+/**
+ * Decode `nan`, `inf`, `+inf` and `-inf`
+ */
+export function decodeSpecialNumber(literal: string): number {
+    if (literal === "nan") return NaN;
+    return literal === "-inf" ? -Infinity : Infinity;
+}
@@ -0,0 +1,316 @@
+import { CompletionContext, type Completion, type CompletionResult } from "@codemirror/autocomplete";
+import type { SyntaxNode, Tree } from "@lezer/common";
+import { decodeNode } from "./decoder";
+import { encodeScalar } from "./encoder";
+import { DICT_CONTAINERS, LIST_CONTAINERS, dictAt, entriesOf, rootValue, type HumlPath } from "./navigation";
+import { decodeKey } from "./scalars";
+import type { ValidationIssue } from "./validator";
+
+export type JsonSchemaType = "object" | "array" | "string" | "number" | "integer" | "boolean" | "null";
+
+/**
+ * The subset of JSON Schema (draft 2020-12) understood by the HUML editor support
+ */
+export interface JsonSchema {
+    type?: JsonSchemaType | JsonSchemaType[];
+    title?: string;
+    description?: string;
+    default?: unknown;
+    enum?: unknown[];
+    // Objects
+    properties?: Record<string, JsonSchema>;
+    required?: string[];
+    additionalProperties?: boolean | JsonSchema;
+    // Arrays
+    items?: JsonSchema;
+    minItems?: number;
+    maxItems?: number;
+    // Strings
+    pattern?: string;
+    minLength?: number;
+    maxLength?: number;
+    // Numbers
+    minimum?: number;
+    maximum?: number;
+    exclusiveMinimum?: number;
+    exclusiveMaximum?: number;
+    // Combinators
+    oneOf?: JsonSchema[];
+}
+
+interface Range {
+    from: number;
+    to: number;
+}
+
+/**
+ * Validate a HUML syntax tree against a JSON Schema.
+ *
+ * Scalar problems are reported on the value, problems with a whole
+ * collection (wrong type, missing required keys, item counts) on the key
+ * that owns it. Parts of the tree with syntax errors are skipped, and so
+ * are `pattern`s that are not valid regular expressions.
+ */
+export function validateSchema(tree: Tree, input: string, schema: JsonSchema): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+    const root = rootValue(tree);
+    if (!root) return issues;
+
+    const lineEnd = input.indexOf("\n", root.from);
+    validateValue(root, schema, { from: root.from, to: lineEnd < 0 ? input.length : lineEnd }, input, issues);
+    return issues;
+}
+
+/**
+ * The schemas that apply at a path, following `properties`,
+ * `additionalProperties`, `items` and every `oneOf` branch
+ */
+export function schemasAt(schema: JsonSchema, path: HumlPath): JsonSchema[] {
+    let current = expand(schema);
+    for (const segment of path) {
+        const next: JsonSchema[] = [];
+        for (const s of current) {
+            const child = typeof segment === "number"
+                ? s.items
+                : s.properties?.[segment] ?? (typeof s.additionalProperties === "object" ? s.additionalProperties : undefined);
+            if (child) next.push(...expand(child));
+        }
+        current = next;
+    }
+    return current;
+}
+
+/**
+ * Completion source for keys and enum values declared in a JSON Schema.
+ *
+ * At the start of a line inside a dictionary it proposes the keys the
+ * schema allows there, skipping keys already present. After `key:` it
+ * proposes the `enum` values of that key.
+ */
+export function schemaCompletions(context: CompletionContext, schema: JsonSchema): CompletionResult | null {
+    const { state, pos } = context;
+    const line = state.doc.lineAt(pos);
+    const before = line.text.slice(0, pos - line.from);
+
+    // A key being typed: only indentation and a partial bare key on the line
+    const keyMatch = /^(\s*)([A-Za-z_][\w-]*)?$/.exec(before);
+    if (keyMatch) {
+        const indent = keyMatch[1]!.length;
+        const dict = dictAt(state, pos, indent);
+        if (!dict) return null;
+
+        const present = new Set(dict.keys);
+        const word = keyMatch[2] ?? "";
+        const options: Completion[] = [];
+        for (const s of schemasAt(schema, dict.path)) {
+            for (const [key, property] of Object.entries(s.properties ?? {})) {
+                if (present.has(key) && key !== word) continue;
+                if (options.some((o) => o.label === key)) continue;
+                const collection = isCollectionSchema(property);
+                options.push({
+                    label: key,
+                    type: "property",
+                    detail: typeLabel(property),
+                    info: property.description,
+                    apply: collection ? `${key}:: ` : `${key}: `,
+                });
+            }
+        }
+        if (options.length === 0) return null;
+        return { from: pos - word.length, options, validFor: /^[\w-]*$/ };
+    }
+
+    // A value after `key:`
+    const valueMatch = /^(\s*)([A-Za-z_][\w-]*|"(?:[^"\\]|\\.)*"):( ?)([\w"+.-]*)$/.exec(before);
+    if (valueMatch) {
+        const indent = valueMatch[1]!.length;
+        const dict = dictAt(state, pos, indent);
+        if (!dict) return null;
+
+        const key = decodeKey(valueMatch[2]!);
+        const needsSpace = valueMatch[3] === "";
+        const word = valueMatch[4]!;
+        const options: Completion[] = [];
+        for (const s of schemasAt(schema, [...dict.path, key])) {
+            for (const value of s.enum ?? []) {
+                const text = encodeScalar(value);
+                if (text === null || options.some((o) => o.label === text)) continue;
+                options.push({
+                    label: text,
+                    type: "enum",
+                    info: s.description,
+                    apply: needsSpace ? ` ${text}` : text,
+                });
+            }
+        }
+        if (options.length === 0) return null;
+        return { from: pos - word.length, options };
+    }
+
+    return null;
+}
+
+// --- Validation ---
+
+function validateValue(node: SyntaxNode, schema: JsonSchema, anchor: Range, input: string, issues: ValidationIssue[]): void {
+    if (node.type.isError) return;
+
+    if (schema.oneOf) {
+        const results = schema.oneOf.map((alternative) => {
+            const found: ValidationIssue[] = [];
+            validateValue(node, alternative, anchor, input, found);
+            return found;
+        });
+        const matching = results.filter((r) => r.length === 0).length;
+        if (matching === 0) {
+            // Report the branch that came closest
+            issues.push(...results.reduce((best, r) => r.length < best.length ? r : best));
+        } else if (matching > 1) {
+            issues.push(issue(anchor, "huml/schema-one-of", "Value matches more than one of the allowed schemas"));
+        }
+    }
+
+    const kind = kindOf(node);
+    if (!kind) return;
+    const scalar = kind !== "object" && kind !== "array";
+    const range = scalar ? { from: node.from, to: node.to } : anchor;
+    const value = scalar ? decodeNode(node, input) : undefined;
+
+    if (schema.type) {
+        const allowed = Array.isArray(schema.type) ? schema.type : [schema.type];
+        if (!allowed.some((type) => matchesType(type, kind, value))) {
+            issues.push(issue(range, "huml/schema-type", `Expected ${allowed.join(" or ")} but found ${kind}`));
+            return;
+        }
+    }
+
+    if (schema.enum && scalar && !schema.enum.some((option) => Object.is(option, value) || option === value)) {
+        const options = schema.enum.map((option) => encodeScalar(option) ?? JSON.stringify(option)).join(", ");
+        issues.push(issue(range, "huml/schema-enum", `Value must be one of: ${options}`));
+    }
+
+    if (typeof value === "string") {
+        const pattern = schema.pattern === undefined ? null : compilePattern(schema.pattern);
+        if (pattern && !pattern.test(value)) {
+            issues.push(issue(range, "huml/schema-pattern", `String does not match pattern /${schema.pattern}/`));
+        }
+        const length = [...value].length;
+        if (schema.minLength !== undefined && length < schema.minLength) {
+            issues.push(issue(range, "huml/schema-length", `String must be at least ${schema.minLength} characters long`));
+        }
+        if (schema.maxLength !== undefined && length > schema.maxLength) {
+            issues.push(issue(range, "huml/schema-length", `String must be at most ${schema.maxLength} characters long`));
+        }
+    }
+
+    if (typeof value === "number") {
+        if (schema.minimum !== undefined && value < schema.minimum) {
+            issues.push(issue(range, "huml/schema-range", `Value must be at least ${schema.minimum}`));
+        }
+        if (schema.maximum !== undefined && value > schema.maximum) {
+            issues.push(issue(range, "huml/schema-range", `Value must be at most ${schema.maximum}`));
+        }
+        if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) {
+            issues.push(issue(range, "huml/schema-range", `Value must be greater than ${schema.exclusiveMinimum}`));
+        }
+        if (schema.exclusiveMaximum !== undefined && value >= schema.exclusiveMaximum) {
+            issues.push(issue(range, "huml/schema-range", `Value must be less than ${schema.exclusiveMaximum}`));
+        }
+    }
+
+    if (kind === "array") {
+        const items = entriesOf(node, (from, to) => input.slice(from, to));
+        if (schema.minItems !== undefined && items.length < schema.minItems) {
+            issues.push(issue(anchor, "huml/schema-items", `List must have at least ${schema.minItems} items`));
+        }
+        if (schema.maxItems !== undefined && items.length > schema.maxItems) {
+            issues.push(issue(anchor, "huml/schema-items", `List must have at most ${schema.maxItems} items`));
+        }
+        if (schema.items) {
+            for (const item of items) {
+                const mark = item.node.getChild("ListMark") ?? item.node;
+                validateValue(item.value, schema.items, { from: mark.from, to: mark.to }, input, issues);
+            }
+        }
+    }
+
+    if (kind === "object") {
+        const entries = entriesOf(node, (from, to) => input.slice(from, to));
+        const present = new Set(entries.map((entry) => entry.key));
+        for (const key of schema.required ?? []) {
+            if (!present.has(key)) {
+                issues.push(issue(anchor, "huml/schema-required", `Missing required key "${key}"`));
+            }
+        }
+        for (const entry of entries) {
+            const keyRange = { from: entry.keyNode!.from, to: entry.keyNode!.to };
+            const property = schema.properties?.[entry.key!];
+            if (property) {
+                validateValue(entry.value, property, keyRange, input, issues);
+            } else if (schema.additionalProperties === false) {
+                issues.push(issue(keyRange, "huml/schema-additional-property", `Key "${entry.key}" is not allowed here`));
+            } else if (typeof schema.additionalProperties === "object") {
+                validateValue(entry.value, schema.additionalProperties, keyRange, input, issues);
+            }
+        }
+    }
+}
+
+function kindOf(node: SyntaxNode): "object" | "array" | "string" | "number" | "boolean" | "null" | null {
+    if (DICT_CONTAINERS.has(node.name)) return "object";
+    if (LIST_CONTAINERS.has(node.name)) return "array";
+    switch (node.name) {
+        case "String":
+        case "BlockString":
+        case "FoldedString":
+            return "string";
+        case "Number":
+        case "SpecialNumber":
+            return "number";
+        case "Boolean":
+            return "boolean";
+        case "Null":
+            return "null";
+    }
+    return null;
+}
+
+function matchesType(type: JsonSchemaType, kind: string, value: unknown): boolean {
+    if (type === "integer") return kind === "number" && Number.isInteger(value);
+    return type === kind;
+}
+
+const patterns = new Map<string, RegExp | null>();
+
+// The compiled `pattern`, or null for one that is not a valid regular expression
+function compilePattern(source: string): RegExp | null {
+    let pattern = patterns.get(source);
+    if (pattern === undefined) {
+        try {
+            pattern = new RegExp(source, "u");
+        } catch {
+            pattern = null;
+        }
+        patterns.set(source, pattern);
+    }
+    return pattern;
+}
+
+function issue(range: Range, code: string, message: string): ValidationIssue {
+    return { from: range.from, to: range.to, code, message };
+}
+
+// --- Completion and hover helpers ---
+
+function expand(schema: JsonSchema): JsonSchema[] {
+    return [schema, ...(schema.oneOf ?? []).flatMap(expand)];
+}
+
+function isCollectionSchema(schema: JsonSchema): boolean {
+    const types = Array.isArray(schema.type) ? schema.type : schema.type ? [schema.type] : [];
+    return types.length > 0 && types.every((type) => type === "object" || type === "array");
+}
+
+function typeLabel(schema: JsonSchema): string | undefined {
+    return Array.isArray(schema.type) ? schema.type.join(" | ") : schema.type;
+}
@@ -0,0 +1,114 @@
+import { pickedCompletion, snippet, type Completion, type CompletionContext, type CompletionResult } from "@codemirror/autocomplete";
+import { getIndentation } from "@codemirror/language";
+import { Transaction } from "@codemirror/state";
+import type { EditorView } from "@codemirror/view";
+
+/**
+ * A template offered by HUML completion
+ */
+export interface HumlSnippet {
+    /** Name shown in the completion list and matched against the typed word */
+    label: string;
+    /**
+     * The text to insert, in `@codemirror/autocomplete` snippet syntax:
+     * `${name}` marks a field, and each leading tab indents a line one
+     * level (2 spaces) deeper than the line the snippet starts on.
+     */
+    template: string;
+    /**
+     * Where the snippet is offered: `"entry"` where a key or list item
+     * starts, `"value"` after `key: ` or `- `, `"start"` on the first line
+     * of the document. Defaults to `"entry"`.
+     */
+    context?: "entry" | "value" | "start";
+    /** Short text shown next to the label */
+    detail?: string;
+    /** Longer description shown for the selected snippet */
+    info?: string;
+}
+
+/**
+ * The built-in snippets: multiline strings, a version directive, a nested
+ * dictionary and a list of dictionaries
+ */
+export const humlSnippets: readonly HumlSnippet[] = [
+    { label: "block string", context: "value", template: "\"\"\"\n\t${}\n\"\"\"", detail: "\"\"\"", info: "Multiline string that keeps its line breaks" },
+    { label: "folded string", context: "value", template: "```\n\t${}\n```", detail: "```", info: "Multiline string whose lines are joined with spaces" },
+    { label: "version", context: "start", template: "%HUML ${v0.1.0}\n${}", detail: "%HUML", info: "Version directive" },
+    { label: "dict", template: "${key}::\n\t${name}: ${value}", detail: "key::", info: "Nested dictionary" },
+    { label: "list of dicts", template: "${key}::\n\t- ::\n\t\t${name}: ${value}", detail: "key:: - ::", info: "List whose items are dictionaries" },
+];
+
+/**
+ * Snippet completions at the cursor.
+ *
+ * Entry snippets started on a line of their own move that line to the
+ * indentation of the enclosing block first, so their fields line up with
+ * the block's other entries. Nothing is offered while nothing is typed,
+ * unless completion was requested explicitly.
+ */
+export function snippetCompletions(context: CompletionContext, snippets: readonly HumlSnippet[]): CompletionResult | null {
+    const { state, pos } = context;
+    const line = state.doc.lineAt(pos);
+    const before = line.text.slice(0, pos - line.from);
+
+    let word: string;
+    let contexts: string[];
+    let prefix = "";
+    const entry = /^\s*([\w%]*)$/.exec(before);
+    const value = /(?:^\s*-|[^:]:)( ?)(\w*)$/.exec(before);
+    if (entry) {
+        word = entry[1]!;
+        contexts = line.number === 1 && before === word ? ["entry", "start"] : ["entry"];
+    } else if (value) {
+        word = value[2]!;
+        contexts = ["value"];
+        if (value[1] === "") prefix = " ";
+    } else {
+        return null;
+    }
+    if (!word && !context.explicit) return null;
+
+    const options: Completion[] = snippets
+        .filter((s) => contexts.includes(s.context ?? "entry"))
+        .map((s) => ({
+            label: s.label,
+            type: "keyword",
+            detail: s.detail,
+            info: s.info,
+            apply: applySnippet(prefix + s.template, s.context !== "value"),
+        }));
+    if (options.length === 0) return null;
+    return { from: pos - word.length, options };
+}
+
+// --- Helpers ---
+
+// Insert `template`, indenting the line as the enclosing block expects when
+// `reindent` is set. Both edits go in one transaction, so one undo step
+// takes the snippet and the new indentation back.
+function applySnippet(template: string, reindent: boolean) {
+    const insert = snippet(template);
+    return (view: EditorView, completion: Completion, from: number, to: number) => {
+        const line = view.state.doc.lineAt(from);
+        const width = reindent ? getIndentation(view.state, line.from) : null;
+        const current = from - line.from;
+        if (width === null || width === current) return insert(view, completion, from, to);
+
+        // Let the snippet build its transaction on the re-indented line, then
+        // apply it together with the indentation change
+        const indent = view.state.changes({ from: line.from, to: from, insert: " ".repeat(width) });
+        const indented = view.state.update({ changes: indent }).state;
+        const editor = {
+            state: indented,
+            dispatch: (tr: Transaction) => view.dispatch(view.state.update({
+                changes: indent.compose(tr.changes),
+                selection: tr.selection,
+                effects: tr.effects,
+                scrollIntoView: true,
+                annotations: [pickedCompletion.of(completion), Transaction.userEvent.of("input.complete")],
+            })),
+        };
+        insert(editor as unknown as EditorView, completion, from + width - current, to + width - current);
+    };
+}
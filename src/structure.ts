@@ -0,0 +1,240 @@
+import { syntaxTree } from "@codemirror/language";
+import type { ChangeSpec, EditorState, StateCommand } from "@codemirror/state";
+import type { SyntaxNode } from "@lezer/common";
+import { contentEnd } from "./navigation";
+
+/**
+ * Swap the entry at the cursor with the sibling above it.
+ *
+ * Like the other structural commands, this acts on the `key:`/`key::`
+ * property or `-` list item starting on the cursor line as a whole: its
+ * nested block with the comments it ends with, its multiline strings and
+ * the comment lines directly above it at its own column. It returns
+ * `false`, leaving the key to line-based commands, when the cursor is not
+ * on such an entry, when several lines are selected, or when there is
+ * nothing to move past.
+ */
+export const moveEntryUp: StateCommand = moveEntry(-1);
+
+/**
+ * Swap the entry at the cursor with the sibling below it.
+ */
+export const moveEntryDown: StateCommand = moveEntry(1);
+
+/**
+ * Insert a copy of the entry at the cursor below it and move the cursor into
+ * the copy.
+ */
+export const duplicateEntry: StateCommand = ({ state, dispatch }) => {
+    const entry = entryAt(state);
+    if (!entry) return false;
+    const span = spanOf(state, entry);
+    const text = state.sliceDoc(span.from, span.to);
+    const head = state.selection.main.head;
+    dispatch(state.update({
+        changes: { from: span.to, insert: `\n${text}` },
+        selection: { anchor: head + text.length + 1 },
+        scrollIntoView: true,
+        userEvent: "input.copyline",
+    }));
+    return true;
+};
+
+/**
+ * Delete the entry at the cursor. The last entry of a block leaves an empty
+ * `{}` or `[]` behind, so that its key keeps a value.
+ */
+export const deleteEntry: StateCommand = ({ state, dispatch }) => {
+    const entry = entryAt(state);
+    if (!entry) return false;
+    const span = spanOf(state, entry);
+    let changes: ChangeSpec;
+    if (siblingOf(entry, -1) || siblingOf(entry, 1)) {
+        changes = span.to < state.doc.length ? { from: span.from, to: span.to + 1 } : { from: Math.max(0, span.from - 1), to: span.to };
+    } else {
+        changes = emptyContainer(entry) ?? { from: span.from, to: contentEnd(entry), insert: entry.name === "Property" ? "{}" : "[]" };
+    }
+    dispatch(state.update({ changes, scrollIntoView: true, userEvent: "delete.line" }));
+    return true;
+};
+
+/**
+ * Move the entry at the cursor into the block of the sibling above it, as
+ * that block's last entry. The sibling must hold a block of the same kind:
+ * properties go into dictionaries, list items into lists.
+ */
+export const indentEntry: StateCommand = ({ state, dispatch }) => {
+    const entry = entryAt(state);
+    const previous = entry && siblingOf(entry, -1);
+    const content = previous && blockOf(previous)?.getChild(entry.name === "Property" ? "DictBlockContent" : "ListBlockContent");
+    const first = content && firstEntry(content);
+    if (!entry || !first) return false;
+
+    const span = spanOf(state, entry);
+    const delta = columnOf(state, first.from) - columnOf(state, entry.from);
+    const text = state.sliceDoc(span.from, span.to);
+    const head = state.selection.main.head;
+    dispatch(state.update({
+        changes: { from: span.from, to: span.to, insert: shift(text, delta) },
+        selection: { anchor: span.from + shiftedOffset(text, head - span.from, delta) },
+        userEvent: "indent",
+    }));
+    return true;
+};
+
+/**
+ * Move the entry at the cursor out of its block, to just below the entry
+ * owning the block. An emptied block becomes `{}` or `[]`.
+ */
+export const outdentEntry: StateCommand = ({ state, dispatch }) => {
+    const entry = entryAt(state);
+    const owner = entry && ownerOf(entry);
+    if (!entry || !owner || !accepts(slotOf(owner).parent, entry)) return false;
+
+    const span = spanOf(state, entry);
+    const delta = columnOf(state, owner.from) - columnOf(state, entry.from);
+    const text = shift(state.sliceDoc(span.from, span.to), delta);
+    const ownerEnd = spanOf(state, owner).to;
+    const removal = siblingOf(entry, -1) || siblingOf(entry, 1) ? { from: span.from - 1, to: span.to } : emptyContainer(entry)!;
+    const changes = state.changes([removal, { from: ownerEnd, insert: `\n${text}` }]);
+    const head = state.selection.main.head;
+    dispatch(state.update({
+        changes,
+        selection: { anchor: changes.mapPos(ownerEnd, -1) + 1 + shiftedOffset(state.sliceDoc(span.from, span.to), head - span.from, delta) },
+        scrollIntoView: true,
+        userEvent: "indent",
+    }));
+    return true;
+};
+
+// --- Helpers ---
+
+function moveEntry(dir: -1 | 1): StateCommand {
+    return ({ state, dispatch }) => {
+        const entry = entryAt(state);
+        const other = entry && siblingOf(entry, dir);
+        if (!entry || !other) return false;
+
+        const [upper, lower] = dir < 0 ? [spanOf(state, other), spanOf(state, entry)] : [spanOf(state, entry), spanOf(state, other)];
+        const upperText = state.sliceDoc(upper.from, upper.to);
+        const lowerText = state.sliceDoc(lower.from, lower.to);
+        const gap = state.sliceDoc(upper.to, lower.from);
+        const offset = state.selection.main.head - (dir < 0 ? lower.from : upper.from);
+        const moved = dir < 0 ? upper.from : upper.from + lowerText.length + gap.length;
+        dispatch(state.update({
+            changes: { from: upper.from, to: lower.to, insert: lowerText + gap + upperText },
+            selection: { anchor: moved + offset },
+            scrollIntoView: true,
+            userEvent: "move.line",
+        }));
+        return true;
+    };
+}
+
+// The block-level property or list item starting on the cursor line
+function entryAt(state: EditorState): SyntaxNode | null {
+    const { ranges, main } = state.selection;
+    const line = state.doc.lineAt(main.head);
+    if (ranges.length > 1 || main.from < line.from || main.to > line.to) return null;
+    const start = line.from + line.text.length - line.text.trimStart().length;
+    for (let node: SyntaxNode | null = syntaxTree(state).resolveInner(start, 1); node; node = node.parent) {
+        if (node.name !== "Property" && node.name !== "ListItem") continue;
+        if (node.from !== start || node.type.isError || !accepts(slotOf(node).parent, node)) return null;
+        return node;
+    }
+    return null;
+}
+
+// The node that sits among the entry's siblings: root list items are wrapped in a RootListItem
+function slotOf(entry: SyntaxNode): SyntaxNode {
+    return entry.parent?.name === "RootListItem" ? entry.parent : entry;
+}
+
+// Whether `container` is a block that holds entries like `entry`
+function accepts(container: SyntaxNode | null, entry: SyntaxNode): boolean {
+    if (!container) return false;
+    return entry.name === "Property"
+        ? container.name === "Properties" || container.name === "DictBlockContent"
+        : container.name === "RootListItems" || container.name === "ListBlockContent";
+}
+
+function siblingOf(entry: SyntaxNode, dir: -1 | 1): SyntaxNode | null {
+    const next = (node: SyntaxNode) => dir < 0 ? node.prevSibling : node.nextSibling;
+    for (let node = next(slotOf(entry)); node; node = next(node)) {
+        if (node.name === "Property" || node.name === "ListItem") return node;
+        if (node.name === "RootListItem") return node.getChild("ListItem");
+    }
+    return null;
+}
+
+function firstEntry(container: SyntaxNode): SyntaxNode | null {
+    return container.getChild("Property") ?? container.getChild("ListItem");
+}
+
+function blockOf(entry: SyntaxNode): SyntaxNode | null {
+    return entry.getChild("Collection")?.getChild("Block") ?? entry.getChild("Block");
+}
+
+// The property or list item whose block holds `entry`, for nested entries
+function ownerOf(entry: SyntaxNode): SyntaxNode | null {
+    const block = slotOf(entry).parent?.parent;
+    if (block?.name !== "Block") return null;
+    const owner = block.parent?.name === "Collection" ? block.parent.parent : block.parent;
+    return owner && (owner.name === "Property" || owner.name === "ListItem") ? owner : null;
+}
+
+// Replace the block holding `entry` as its only entry with `{}` or `[]`
+function emptyContainer(entry: SyntaxNode): ChangeSpec | null {
+    const owner = ownerOf(entry);
+    if (!owner) return null;
+    const empty = entry.name === "Property" ? "{}" : "[]";
+    const mark = owner.getChild("::");
+    if (mark) return { from: mark.to, to: contentEnd(owner), insert: ` ${empty}` };
+    // `- ` directly followed by a block
+    return { from: owner.getChild("ListMark")!.to, to: contentEnd(owner), insert: ` :: ${empty}` };
+}
+
+// The lines of an entry: the comment lines directly above it at its own
+// column, the entry, and the comment lines its block ends with
+function spanOf(state: EditorState, entry: SyntaxNode): { from: number; to: number } {
+    const column = columnOf(state, entry.from);
+    const isComment = (text: string) => text.trimStart().startsWith("#");
+    const indentOf = (text: string) => text.length - text.trimStart().length;
+
+    let first = state.doc.lineAt(entry.from);
+    while (first.number > 1) {
+        const above = state.doc.line(first.number - 1);
+        if (!isComment(above.text) || indentOf(above.text) !== column) break;
+        first = above;
+    }
+
+    let last = state.doc.lineAt(contentEnd(entry));
+    if (blockOf(entry)) {
+        for (let n = last.number + 1; n <= state.doc.lines; n++) {
+            const below = state.doc.line(n);
+            if (below.text.trim() === "") continue;
+            if (!isComment(below.text) || indentOf(below.text) <= column) break;
+            last = below;
+        }
+    }
+    return { from: first.from, to: last.to };
+}
+
+function columnOf(state: EditorState, pos: number): number {
+    return pos - state.doc.lineAt(pos).from;
+}
+
+// Indent (or dedent, for a negative `delta`) every non-blank line of `text`
+function shift(text: string, delta: number): string {
+    return text.split("\n").map((line) => {
+        if (line.trim() === "") return line;
+        if (delta >= 0) return " ".repeat(delta) + line;
+        return line.slice(Math.min(-delta, /^ */.exec(line)![0].length));
+    }).join("\n");
+}
+
+// Where `offset` into `text` ends up once the text is shifted by `delta`
+function shiftedOffset(text: string, offset: number, delta: number): number {
+    // The marker keeps a line cut off inside its indentation from counting as blank
+    return shift(`${text.slice(0, offset)}|`, delta).length - 1;
+}
@@ -0,0 +1,164 @@
+import { HighlightStyle, syntaxHighlighting, syntaxTree } from "@codemirror/language";
+import { RangeSetBuilder, type EditorState, type Extension } from "@codemirror/state";
+import { Decoration, EditorView, ViewPlugin, type DecorationSet, type ViewUpdate } from "@codemirror/view";
+import { tags, type Tag } from "@lezer/highlight";
+import { isKeyNode } from "./navigation";
+
+/**
+ * Options for {@link humlLightTheme} and {@link humlDarkTheme}
+ */
+export interface HumlThemeOptions {
+    /**
+     * Color keys by how deeply they are nested, cycling through four colors,
+     * so that siblings share a color and parents stand out. Defaults to `false`.
+     */
+    keyDepth?: boolean;
+}
+
+/**
+ * Highlighting for HUML on a light background
+ */
+export const humlHighlightStyle: HighlightStyle = highlightStyle({
+    key: "#a626a4",
+    string: "#50a14f",
+    number: "#986801",
+    atom: "#0184bc",
+    comment: "#a0a1a7",
+    directive: "#4078f2",
+    punctuation: "#383a42",
+});
+
+/**
+ * Highlighting for HUML on a dark background
+ */
+export const humlDarkHighlightStyle: HighlightStyle = highlightStyle({
+    key: "#e06c75",
+    string: "#98c379",
+    number: "#d19a66",
+    atom: "#56b6c2",
+    comment: "#7f848e",
+    directive: "#61afef",
+    punctuation: "#abb2bf",
+});
+
+/**
+ * A light editor theme with {@link humlHighlightStyle}.
+ *
+ * @example
+ * ```typescript
+ * import { huml, humlLightTheme } from "@nayanvr/lang-huml";
+ *
+ * const extensions = [huml(), humlLightTheme({ keyDepth: true })];
+ * ```
+ */
+export function humlLightTheme(options: HumlThemeOptions = {}): Extension {
+    return [
+        EditorView.theme({
+            "&": { color: "#383a42", backgroundColor: "#fafafa" },
+            ".cm-gutters": { color: "#9d9d9f", backgroundColor: "#fafafa", border: "none" },
+            ".cm-activeLine, .cm-activeLineGutter": { backgroundColor: "#f0f0f1" },
+            "&.cm-focused .cm-selectionBackground, .cm-selectionBackground": { backgroundColor: "#e5e5e6" },
+            ".cm-cursor": { borderLeftColor: "#526fff" },
+        }, { dark: false }),
+        syntaxHighlighting(humlHighlightStyle),
+        options.keyDepth ? keyDepth(["#a626a4", "#4078f2", "#c18401", "#0184bc"]) : [],
+    ];
+}
+
+/**
+ * A dark editor theme with {@link humlDarkHighlightStyle}.
+ */
+export function humlDarkTheme(options: HumlThemeOptions = {}): Extension {
+    return [
+        EditorView.theme({
+            "&": { color: "#abb2bf", backgroundColor: "#282c34" },
+            ".cm-gutters": { color: "#636d83", backgroundColor: "#282c34", border: "none" },
+            ".cm-activeLine, .cm-activeLineGutter": { backgroundColor: "#2c313a" },
+            "&.cm-focused .cm-selectionBackground, .cm-selectionBackground": { backgroundColor: "#3e4451" },
+            ".cm-cursor": { borderLeftColor: "#528bff" },
+        }, { dark: true }),
+        syntaxHighlighting(humlDarkHighlightStyle),
+        options.keyDepth ? keyDepth(["#e06c75", "#61afef", "#e5c07b", "#c678dd"]) : [],
+    ];
+}
+
+/**
+ * The keys between `from` and `to` with their nesting depth: the number of
+ * indented blocks around them. Quoted keys count as keys.
+ */
+export function keyDepths(state: EditorState, from = 0, to = state.doc.length): { from: number; to: number; depth: number }[] {
+    const keys: { from: number; to: number; depth: number }[] = [];
+    syntaxTree(state).iterate({
+        from,
+        to,
+        enter(node) {
+            if (!isKeyNode(node.node)) return;
+            let depth = 0;
+            for (let ancestor = node.node.parent; ancestor; ancestor = ancestor.parent) {
+                if (ancestor.name === "Block") depth++;
+            }
+            keys.push({ from: node.from, to: node.to, depth });
+        },
+    });
+    return keys;
+}
+
+// --- Helpers ---
+
+interface Palette {
+    key: string;
+    string: string;
+    number: string;
+    atom: string;
+    comment: string;
+    directive: string;
+    punctuation: string;
+}
+
+function highlightStyle(colors: Palette): HighlightStyle {
+    const style = (tag: Tag | Tag[], color: string, extra: Record<string, string> = {}) => ({ tag, color, ...extra });
+    return HighlightStyle.define([
+        style(tags.propertyName, colors.key),
+        style(tags.string, colors.string),
+        style([tags.number, tags.special(tags.number)], colors.number),
+        style([tags.bool, tags.null], colors.atom),
+        style(tags.lineComment, colors.comment, { fontStyle: "italic" }),
+        style([tags.processingInstruction, tags.literal], colors.directive),
+        style([tags.punctuation, tags.separator, tags.squareBracket, tags.brace], colors.punctuation),
+    ]);
+}
+
+// Mark keys with a class per nesting depth, cycling through `colors`
+function keyDepth(colors: readonly string[]): Extension {
+    const marks = colors.map((_, i) => Decoration.mark({ class: `cm-huml-key-depth-${i}` }));
+    const build = (view: EditorView): DecorationSet => {
+        const builder = new RangeSetBuilder<Decoration>();
+        for (const { from, to } of view.visibleRanges) {
+            for (const key of keyDepths(view.state, from, to)) {
+                builder.add(key.from, key.to, marks[key.depth % marks.length]!);
+            }
+        }
+        return builder.finish();
+    };
+
+    const plugin = ViewPlugin.fromClass(class {
+        decorations: DecorationSet;
+
+        constructor(view: EditorView) {
+            this.decorations = build(view);
+        }
+
+        update(update: ViewUpdate) {
+            if (update.docChanged || update.viewportChanged || syntaxTree(update.state) !== syntaxTree(update.startState)) {
+                this.decorations = build(update.view);
+            }
+        }
+    }, { decorations: (value) => value.decorations });
+
+    // Key marks wrap the highlighted key, so also color the span inside them
+    const styles: Record<string, { color: string }> = {};
+    colors.forEach((color, i) => {
+        styles[`.cm-huml-key-depth-${i}, .cm-huml-key-depth-${i} span`] = { color };
+    });
+    return [plugin, EditorView.theme(styles)];
+}
@@ -1,4 +1,4 @@
-import { ContextTracker, ExternalTokenizer } from "@lezer/lr";
+import { ContextTracker, ExternalTokenizer, type InputStream } from "@lezer/lr";
 import { BlockString, Dedent, FoldedString, Indent, Key, ListMark, Newline, Number as NumberToken, String as StringToken } from "./huml-parser.terms";
 
 // --- Constants ---
@@ -19,53 +19,79 @@ const isAlphaNum = (c: number) => isAlpha(c) || isDigit(c) || c === DASH;
 const isHex = (c: number) => isDigit(c) || (c >= LOWER_A && c <= 102) || (c >= UPPER_A && c <= 70);
 
 // --- Context Tracker ---
-export const trackIndent: ContextTracker<number> = new ContextTracker({
-    start: 0,
-    shift(context, term) {
-        return term == Indent ? context + 2 : term == Dedent ? context - 2 : context;
+
+/**
+ * The indentation of the enclosing blocks: the width of the innermost one,
+ * linked to the levels around it
+ */
+export class IndentLevel {
+    constructor(readonly parent: IndentLevel | null, readonly width: number, readonly hash: number) {}
+
+    /** The level of a block indented by `width` columns inside this one */
+    push(width: number): IndentLevel {
+        return new IndentLevel(this, width, (this.hash * 31 + width + 1) | 0);
+    }
+}
+
+const topLevel = new IndentLevel(null, 0, 0);
+
+export const trackIndent: ContextTracker<IndentLevel> = new ContextTracker({
+    start: topLevel,
+    shift(context, term, _stack, input) {
+        // An Indent token spans the line break and the whitespace after it
+        if (term == Indent) return context.push(indentWidth(input, lineBreakLength(input, 0)));
+        if (term == Dedent) return context.parent ?? context;
+        return context;
     },
-    hash(context) { return context; }
+    hash(context) { return context.hash; }
 });
 
+// Length of the line break at `pos`: a Windows `\r\n` is a single one
+function lineBreakLength(input: InputStream, pos: number): number {
+    const c = input.peek(pos);
+    if (c === CR) return input.peek(pos + 1) === NEWLINE ? 2 : 1;
+    return c === NEWLINE ? 1 : 0;
+}
+
+// Number of indentation columns starting at `pos`; a tab counts as one,
+// tabs are reported by the linter
+function indentWidth(input: InputStream, pos: number): number {
+    let width = 0;
+    while (input.peek(pos + width) === SPACE || input.peek(pos + width) === TAB) width++;
+    return width;
+}
+
 // --- Tokenizers ---
 
 export const indentation: ExternalTokenizer = new ExternalTokenizer((input, stack) => {
     const c = input.peek(0);
+    const level: IndentLevel = stack.context;
 
     // Handle EOF: if we have indentation, dedent to close blocks
     if (c === -1) {
-        if (stack.context > 0) input.acceptToken(Dedent, 0);
+        if (level.parent) input.acceptToken(Dedent, 0);
         return;
     }
 
-    if (c !== NEWLINE && c !== CR) return;
-
-    let spaces = 0;
-    let pos = 1;
-
-    // Count indentation spaces immediately following the newline
-    while (true) {
-        const next = input.peek(pos);
-        if (next === SPACE || next === TAB) {
-            spaces++;
-            pos++;
-        } else {
-            break;
-        }
-    }
+    const lineBreak = lineBreakLength(input, 0);
+    if (!lineBreak) return;
 
+    // Count indentation immediately following the line break
+    const spaces = indentWidth(input, lineBreak);
+    const pos = lineBreak + spaces;
     const next = input.peek(pos);
 
     // If the line is empty (just newline/EOF), emit Newline
     if (next === NEWLINE || next === CR || next === -1) {
-        input.acceptToken(Newline, 1); // Consume only the first newline char
+        input.acceptToken(Newline, lineBreak); // Consume only the first line break
         return;
     }
 
-    // Compare with current context
-    if (spaces > stack.context) {
+    // Compare with the current block. A line that dedents to a width between
+    // two levels stays in the inner block, where the linter reports it
+    if (spaces > level.width) {
         input.acceptToken(Indent, pos);
-    } else if (spaces < stack.context) {
+    } else if (level.parent && spaces <= level.parent.width) {
         input.acceptToken(Dedent, 0); // Don't consume anything, just emit Dedent
     } else {
         input.acceptToken(Newline, pos);
@@ -95,8 +121,9 @@ export const multilineStrings: ExternalTokenizer = new ExternalTokenizer((input,
 
         // Check for closing delimiter at start of line
         if (next === NEWLINE || next === CR) {
-            input.advance();
-            length++;
+            const lineBreak = lineBreakLength(input, 0);
+            input.advance(lineBreak);
+            length += lineBreak;
 
             // Check indentation
             let currentIndent = 0;
@@ -113,7 +140,7 @@ export const multilineStrings: ExternalTokenizer = new ExternalTokenizer((input,
 
             // Check for closing delimiter
             if (input.peek(0) === start && input.peek(1) === start && input.peek(2) === start) {
-                if (currentIndent !== stack.context) return; // Invalid indentation
+                if (currentIndent !== (stack.context as IndentLevel).width) return; // Invalid indentation
                 input.advance(3);
                 input.acceptToken(type);
                 return;
@@ -179,11 +206,10 @@ export const stringToken: ExternalTokenizer = new ExternalTokenizer((input) => {
         if (next === -1) return; // Unclosed
         if (next === NEWLINE || next === CR) return; // No newlines allowed
 
+        // Escaped quotes are skipped below, so any quote reached here closes the string
         if (next === QUOTE) {
-            if (input.peek(pos - 1) !== BACKSLASH) {
-                input.acceptToken(StringToken, pos + 1);
-                return;
-            }
+            input.acceptToken(StringToken, pos + 1);
+            return;
         }
 
         if (next === BACKSLASH) {
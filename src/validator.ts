@@ -1,33 +1,174 @@
-import { Tree } from "@lezer/common";
+import { Text } from "@codemirror/state";
+import type { SyntaxNode, Tree } from "@lezer/common";
+import { decodeKey } from "./scalars";
 
-export function validateTree(tree: Tree, input: string): string[] {
-    const errors: string[] = [];
+/**
+ * A semantic problem found in a syntactically valid HUML tree
+ */
+export interface ValidationIssue {
+    /** Start of the offending range (the key for duplicate keys) */
+    from: number;
+    /** End of the offending range */
+    to: number;
+    /** Stable identifier of the check, e.g. `huml/duplicate-key` */
+    code: string;
+    message: string;
+    /** Another location relevant to the issue, e.g. the first occurrence of a duplicated key */
+    related?: { from: number; to: number; message: string };
+    /** Lines to shift as a whole so that the first one is indented by `width` columns */
+    reindent?: { from: number; to: number; width: number };
+}
+
+/**
+ * A dictionary key and where it is written
+ */
+export interface KeyRecord {
+    key: string;
+    from: number;
+    to: number;
+}
+
+/**
+ * Names of the nodes whose direct `Property`/`DictPair` children must have distinct keys
+ */
+export const KEYED_CONTAINERS: ReadonlySet<string> = new Set(["DictBlockContent", "InlineDict", "RootInlineDict", "Document", "Properties"]);
+
+/**
+ * Run semantic checks that the grammar cannot express.
+ *
+ * Reports keys that repeat an earlier key in the same dictionary, and `:`
+ * or `::` tokens not followed by a space (`key:value`, `key::[1]`).
+ * Quoted and bare keys naming the same key (`"a"` and `a`) count as duplicates.
+ * Only real tokens are checked, so colons inside strings and comments are
+ * never reported. Indented blocks are checked with {@link blockIndentation}.
+ */
+export function validateTree(tree: Tree, input: string): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+    const read = (from: number, to: number) => input.slice(from, to);
+    let doc: Text | undefined;
 
     tree.cursor().iterate((node) => {
         // Check for duplicate keys in dictionaries
-        if (node.name === "DictBlockContent" || node.name === "InlineDict" || node.name === "RootInlineDict" || node.name === "Document" || node.name === "Properties") {
-            const seenKeys = new Set<string>();
-
-            // Iterate over children to find properties
-            let child = node.node.firstChild;
-            while (child) {
-                if (child.name === "Property" || child.name === "DictPair") {
-                    // The first child of Property/DictPair is the Key (or String acting as key)
-                    const keyNode = child.firstChild;
-                    if (keyNode && (keyNode.name === "Key" || keyNode.name === "String")) {
-                        const keyText = input.slice(keyNode.from, keyNode.to);
-
-                        if (seenKeys.has(keyText)) {
-                            errors.push(`Duplicate key "${keyText}" found at position ${keyNode.from}`);
-                        } else {
-                            seenKeys.add(keyText);
-                        }
-                    }
-                }
-                child = child.nextSibling;
+        if (KEYED_CONTAINERS.has(node.name)) {
+            const keys: KeyRecord[] = [];
+            for (let child = node.node.firstChild; child; child = child.nextSibling) {
+                const key = keyOf(child, read);
+                if (key) keys.push(key);
             }
+            duplicateKeys(keys, issues);
+        }
+
+        const spacing = colonSpacing(node.name, node.to, read(node.to, node.to + 1));
+        if (spacing) issues.push(spacing);
+
+        if (node.name === "Property" || node.name === "ListItem") {
+            doc ??= Text.of(input.split("\n"));
+            issues.push(...blockIndentation(node.node, doc));
         }
     });
 
-    return errors;
+    return issues;
+}
+
+/**
+ * The key of a `Property` or `DictPair` node, or `null` for any other node
+ */
+export function keyOf(node: SyntaxNode, read: (from: number, to: number) => string): KeyRecord | null {
+    if (node.name !== "Property" && node.name !== "DictPair") return null;
+    // The first child of Property/DictPair is the Key (or String acting as key)
+    const keyNode = node.firstChild;
+    if (!keyNode || (keyNode.name !== "Key" && keyNode.name !== "String")) return null;
+    return { key: decodeKey(read(keyNode.from, keyNode.to)), from: keyNode.from, to: keyNode.to };
+}
+
+/**
+ * Report every key in `keys` (one dictionary, in document order) that repeats an earlier one
+ */
+export function duplicateKeys(keys: readonly KeyRecord[], issues: ValidationIssue[]): void {
+    const seenKeys = new Map<string, KeyRecord>();
+    for (const record of keys) {
+        const first = seenKeys.get(record.key);
+        if (first) {
+            issues.push({
+                from: record.from,
+                to: record.to,
+                code: "huml/duplicate-key",
+                message: `Duplicate key "${record.key}"`,
+                related: { from: first.from, to: first.to, message: `"${record.key}" is first defined here` },
+            });
+        } else {
+            seenKeys.set(record.key, record);
+        }
+    }
+}
+
+/**
+ * Check the space after a `:` or `::` token ending at `end`; `next` is the
+ * character that follows it (empty at the end of the document).
+ *
+ * Returns `null` for other nodes and for colons followed by whitespace,
+ * the end of the document or a comment.
+ */
+export function colonSpacing(name: string, end: number, next: string): ValidationIssue | null {
+    if (name !== ":" && name !== "::") return null;
+    if (next === "" || next === " " || next === "\t" || next === "\n" || next === "\r" || next === "#") return null;
+    return {
+        from: end,
+        to: end,
+        code: name === ":" ? "huml/space-after-colon" : "huml/space-after-double-colon",
+        message: `Expected space after ${name}`,
+    };
+}
+
+/**
+ * Check the indentation of the block nested under a `Property` or `ListItem`
+ * node: the block's first line must be indented exactly 2 spaces deeper than
+ * the entry, and each entry of the block must start at that same column.
+ * A line dedented to a column between two blocks is parsed into the inner
+ * one and reported as misaligned there.
+ *
+ * Returns nothing for other nodes and entries without a block. Lines
+ * indented with tabs are left to the tab check.
+ *
+ * @param entry - The `Property` or `ListItem` node.
+ * @param doc - The document text.
+ * @param offset - Position of the node's tree in the document, when `entry`
+ *   comes from a subtree; issues are relative to that tree.
+ */
+export function blockIndentation(entry: SyntaxNode, doc: Text, offset = 0): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+    if (entry.name !== "Property" && entry.name !== "ListItem") return issues;
+    const block = entry.getChild("Collection")?.getChild("Block") ?? entry.getChild("Block");
+    const indent = block?.firstChild;
+    const content = indent?.nextSibling;
+    if (!block || indent?.name !== "Indent" || !content) return issues;
+
+    const owner = doc.lineAt(offset + entry.from);
+    const first = doc.lineAt(offset + indent.to);
+    const width = offset + indent.to - first.from;
+    const expected = offset + entry.from - owner.from + 2;
+    if (width !== expected && !/\t/.test(first.text.slice(0, width) + owner.text.slice(0, expected - 2))) {
+        issues.push({
+            from: first.from - offset,
+            to: first.from - offset + width,
+            code: "huml/indentation",
+            message: `Expected indentation of ${expected} spaces (2 more than the parent line), found ${width}`,
+            reindent: { from: first.from - offset, to: block.to, width: expected },
+        });
+    }
+
+    for (let child = content.firstChild; child; child = child.nextSibling) {
+        if (child.name !== "Property" && child.name !== "ListItem") continue;
+        const line = doc.lineAt(offset + child.from);
+        const column = offset + child.from - line.from;
+        if (column === width || line.text.slice(0, column).includes("\t")) continue;
+        issues.push({
+            from: line.from - offset,
+            to: line.from - offset + column,
+            code: "huml/indentation",
+            message: `Dedent to column ${column} does not match any enclosing block; expected ${width} spaces`,
+            reindent: { from: line.from - offset, to: child.to, width },
+        });
+    }
+    return issues;
 }
@@ -0,0 +1,109 @@
+import { describe, expect, test } from "bun:test";
+import { EditorState, type StateCommand } from "@codemirror/state";
+import { humlLanguage } from "./src/huml";
+import { parser } from "./src/huml-parser";
+import { deleteEntry, duplicateEntry, indentEntry, moveEntryDown, moveEntryUp, outdentEntry } from "./src/structure";
+
+// Run `command` with the cursor at the `|` in `doc`; the result shows the new cursor as `|`, or `null` if the command did nothing
+function run(command: StateCommand, doc: string) {
+    const state = EditorState.create({ doc: doc.replace("|", ""), selection: { anchor: doc.indexOf("|") }, extensions: [humlLanguage] });
+    let result = null as string | null;
+    command({
+        state,
+        dispatch: (tr) => {
+            const text = tr.state.doc.toString();
+            const head = tr.state.selection.main.head;
+            result = text.slice(0, head) + "|" + text.slice(head);
+        },
+    });
+    return result;
+}
+
+function parses(doc: string | null) {
+    let valid = doc !== null;
+    parser.parse(doc!.replace("|", "")).iterate({ enter: (node) => { if (node.type.isError) valid = false; } });
+    return valid;
+}
+
+const servers = "name: \"app\"\n# The servers\nservers::\n  - ::\n    host: \"a\"\n  - ::\n    host: \"b\"\nport: 80\n";
+
+describe("Moving entries", () => {
+    test("moves a property with its block and leading comments", () => {
+        const moved = run(moveEntryUp, servers.replace("servers::", "ser|vers::"));
+        expect(moved).toBe("# The servers\nser|vers::\n  - ::\n    host: \"a\"\n  - ::\n    host: \"b\"\nname: \"app\"\nport: 80\n");
+        expect(run(moveEntryDown, servers.replace("servers::", "|servers::"))).toBe("name: \"app\"\nport: 80\n# The servers\n|servers::\n  - ::\n    host: \"a\"\n  - ::\n    host: \"b\"\n");
+    });
+
+    test("moves list items past each other and stops at the ends", () => {
+        expect(run(moveEntryDown, "l::\n  - |::\n    host: \"a\"\n  - ::\n    host: \"b\"\n")).toBe("l::\n  - ::\n    host: \"b\"\n  - |::\n    host: \"a\"\n");
+        expect(run(moveEntryUp, "- 1\n- |2\n")).toBe("- |2\n- 1\n");
+        expect(run(moveEntryUp, servers.replace("name", "|name"))).toBeNull();
+        expect(run(moveEntryUp, servers.replace("host: \"a\"", "|host: \"a\""))).toBeNull();
+    });
+
+    test("takes comments along by their indentation", () => {
+        const up = run(moveEntryUp, "a::\n  x: 1\n  # trailing\n|b: 2");
+        expect(up).toBe("|b: 2\na::\n  x: 1\n  # trailing");
+        expect(parses(up)).toBe(true);
+        const down = run(moveEntryDown, "|a: 1\nb::\n  x: 1\n  # tail\nc: 3");
+        expect(down).toBe("b::\n  x: 1\n  # tail\n|a: 1\nc: 3");
+        expect(parses(down)).toBe(true);
+        expect(run(moveEntryUp, "a: 1\n# about b\n|b: 2\n")).toBe("# about b\n|b: 2\na: 1\n");
+    });
+
+    test("keeps blank lines between entries in place", () => {
+        expect(run(moveEntryDown, "|a: 1\n\nb: 2\n")).toBe("b: 2\n\n|a: 1\n");
+    });
+
+    test("leaves lines inside values and multi-line selections alone", () => {
+        expect(run(moveEntryUp, "a: 1\nb: \"\"\"\n  |text\n\"\"\"\n")).toBeNull();
+        expect(run(moveEntryUp, "a: 1\n# note|\nb: 2\n")).toBeNull();
+        const state = EditorState.create({ doc: "a: 1\nb: 2\n", selection: { anchor: 0, head: 7 }, extensions: [humlLanguage] });
+        expect(moveEntryDown({ state, dispatch: () => {} })).toBe(false);
+    });
+});
+
+describe("Duplicating and deleting entries", () => {
+    test("duplicates an entry below itself", () => {
+        expect(run(duplicateEntry, "a::\n  |b: 1\nc: 2\n")).toBe("a::\n  b: 1\n  |b: 1\nc: 2\n");
+        expect(run(duplicateEntry, "- ::\n    |x: 1\n")).toBe("- ::\n    x: 1\n    |x: 1\n");
+    });
+
+    test("deletes an entry with its block", () => {
+        expect(run(deleteEntry, servers.replace("servers::", "|servers::"))).toBe("name: \"app\"\n|port: 80\n");
+        expect(run(deleteEntry, "a: 1\n|b: 2")).toBe("a: 1|");
+    });
+
+    test("deleting the last entry of a block leaves it empty", () => {
+        const deleted = run(deleteEntry, "a::\n  |b: 1\nc: 2\n");
+        expect(deleted).toBe("a::| {}\nc: 2\n");
+        expect(parses(deleted)).toBe(true);
+        expect(run(deleteEntry, "l::\n  - |1\n")).toBe("l::| []\n");
+        expect(run(deleteEntry, "|a::\n  b: 1\n")).toBe("|{}\n");
+    });
+});
+
+describe("Indenting entries", () => {
+    test("indents an entry into the block above it", () => {
+        const indented = run(indentEntry, "a::\n  b: 1\n|c::\n  d: 2\n");
+        expect(indented).toBe("a::\n  b: 1\n  |c::\n    d: 2\n");
+        expect(parses(indented)).toBe(true);
+    });
+
+    test("does not indent into a scalar or a block of the other kind", () => {
+        expect(run(indentEntry, "a: 1\n|b: 2\n")).toBeNull();
+        expect(run(indentEntry, "a::\n  - 1\n|b: 2\n")).toBeNull();
+    });
+
+    test("outdents an entry below its owner", () => {
+        const outdented = run(outdentEntry, "a::\n  |b::\n    c: 1\n  d: 2\ne: 3\n");
+        expect(outdented).toBe("a::\n  d: 2\n|b::\n  c: 1\ne: 3\n");
+        expect(parses(outdented)).toBe(true);
+        expect(run(outdentEntry, "a::\n  |b: 1\n")).toBe("a:: {}\n|b: 1\n");
+    });
+
+    test("does not outdent a property out of a list item", () => {
+        expect(run(outdentEntry, "- ::\n  |a: 1\n")).toBeNull();
+        expect(run(outdentEntry, "|a: 1\n")).toBeNull();
+    });
+});
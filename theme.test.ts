@@ -0,0 +1,53 @@
+import { describe, expect, test } from "bun:test";
+import type { HighlightStyle } from "@codemirror/language";
+import { EditorState } from "@codemirror/state";
+import { highlightTree, tags } from "@lezer/highlight";
+import { humlLanguage } from "./src/huml";
+import { humlDarkHighlightStyle, humlHighlightStyle, keyDepths } from "./src/theme";
+
+// The highlight class of every token in `doc`, as "text class"
+function highlighted(doc: string, style = humlHighlightStyle) {
+    const spans: string[] = [];
+    highlightTree(humlLanguage.parser.parse(doc), style, (from, to, classes) => spans.push(`${doc.slice(from, to)} ${classes}`));
+    return spans;
+}
+
+describe("Highlighting", () => {
+    test("every token kind is styled", () => {
+        const doc = "%HUML v0.1.0\n# note\na: null\nb:: nan, -inf\nc:: [1, 2]\nd:: []\ne:: {}\nf: true\ng: \"s\"\n";
+        const unstyled = highlighted(doc).filter((span) => !span.split(" ")[1]);
+        expect(unstyled).toEqual([]);
+        const tokens = highlighted(doc).map((span) => span.split(" ")[0]);
+        for (const token of ["%HUML", "v0.1.0", "null", "nan", "-inf", "[", "]", "[]", "{}", ","]) {
+            expect(tokens).toContain(token);
+        }
+    });
+
+    test("quoted keys are styled as keys, not strings", () => {
+        const classOf = (doc: string, text: string) => highlighted(doc).find((span) => span.startsWith(`${text} `))!.split(" ")[1];
+        expect(classOf("\"quoted\": \"value\"\n", "\"quoted\"")).toBe(classOf("bare: 1\n", "bare"));
+        expect(classOf("\"quoted\": \"value\"\n", "\"value\"")).not.toBe(classOf("bare: 1\n", "bare"));
+        expect(classOf("a:: \"k\": 1, j: 2\n", "\"k\"")).toBe(classOf("a:: \"k\": 1, j: 2\n", "j"));
+    });
+
+    test("light and dark styles use different colors", () => {
+        // The declarations a style gives keys, without its generated class name
+        const keyRule = (style: HighlightStyle) => {
+            const name = style.style([tags.propertyName])!;
+            return new RegExp(`\\.${name} \\{([^}]*)\\}`).exec(style.module!.getRules())![1];
+        };
+        expect(keyRule(humlHighlightStyle)).toContain("color:");
+        expect(keyRule(humlDarkHighlightStyle)).not.toEqual(keyRule(humlHighlightStyle));
+        const rules = (style: HighlightStyle) => style.module!.getRules().replace(/\.\S+ /g, "");
+        expect(rules(humlDarkHighlightStyle)).not.toEqual(rules(humlHighlightStyle));
+    });
+
+    test("keys report their nesting depth", () => {
+        const state = EditorState.create({
+            doc: "a::\n  \"b\"::\n    c: 1\nl::\n  - ::\n    d: 2\ne:: f: 1\n",
+            extensions: [humlLanguage],
+        });
+        const depths = keyDepths(state).map((key) => `${state.sliceDoc(key.from, key.to)}:${key.depth}`);
+        expect(depths).toEqual(["a:0", "\"b\":1", "c:2", "l:0", "d:2", "e:0", "f:0"]);
+    });
+});